@@ -0,0 +1,22 @@
+/**
+ * API route that reports the server's current time.
+ * Clients compare it with their own clock to detect drift that would make TOTP codes fail.
+ */
+import {NextResponse} from 'next/server';
+
+/**
+ * Always evaluate on request; a cached response would report a stale time.
+ */
+export const dynamic = 'force-dynamic';
+
+/**
+ * Handles GET requests by returning the server time in milliseconds since the epoch.
+ *
+ * @returns A JSON response of the form { serverTime: number }
+ */
+export function GET() {
+  return NextResponse.json(
+    {serverTime: Date.now()},
+    {headers: {'Cache-Control': 'no-store'}}
+  );
+}
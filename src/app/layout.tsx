@@ -7,6 +7,7 @@ import type {Metadata} from 'next';
 import {Geist, Geist_Mono} from 'next/font/google';
 import './globals.css';
 import {Toaster} from "@/components/ui/toaster";
+import {OTPProvider} from "@/contexts/OTPContext";
 
 /**
  * Geist Sans font configuration for the application.
@@ -37,6 +38,7 @@ export const metadata: Metadata = {
 /**
  * Root layout component that wraps all pages in the application.
  * Provides the HTML structure, applies fonts, and includes global components like the Toaster.
+ * Pages are wrapped in the OTPProvider so they share a single source of OTP configurations.
  * 
  * @param props - Component properties
  * @param props.children - The page content to render within the layout
@@ -50,7 +52,9 @@ export default function RootLayout({
   return (
     <html lang="en">
       <body className={`${geistSans.variable} ${geistMono.variable} antialiased`}>
-        {children}
+        <OTPProvider>
+          {children}
+        </OTPProvider>
         <Toaster />
       </body>
     </html>
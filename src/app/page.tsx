@@ -1,100 +1,154 @@
 'use client';
 
-import {useState, useEffect, useRef} from 'react';
-import {Card, CardHeader, CardTitle, CardContent} from '@/components/ui/card';
+import {useState, useRef, useEffect} from 'react';
 import {Button} from '@/components/ui/button';
 import {Input} from '@/components/ui/input';
 import {Label} from '@/components/ui/label';
-import {
-  Plus,
-  Copy,
-  Edit,
-  Trash2,
-  RefreshCw,
-  Camera,
-  Image as ImageIcon,
-  Download,
-  Upload,
-} from 'lucide-react';
-import {
-  Dialog,
-  DialogTrigger,
-  DialogContent,
-  DialogHeader,
-  DialogTitle,
-  DialogDescription,
-  DialogFooter,
-} from '@/components/ui/dialog';
-import {Textarea} from '@/components/ui/textarea';
+import {Plus, Download, Upload, Clock, QrCode, Lock, Search} from 'lucide-react';
 import {useToast} from '@/hooks/use-toast';
-import {cn, parseOtpAuthUri} from '@/lib/utils';
+import {parseOtpAuthUri} from '@/lib/utils';
 import jsQR from 'jsqr';
-import {authenticator, totp} from 'otplib';
-import {
-  AlertDialog,
-  AlertDialogCancel,
-  AlertDialogContent,
-  AlertDialogDescription,
-  AlertDialogFooter,
-  AlertDialogHeader,
-  AlertDialogTitle,
-} from '@/components/ui/alert-dialog';
-import {Alert, AlertDescription, AlertTitle} from '@/components/ui/alert';
 import {ButtonGroup} from '@/components/ui/button-group';
-
-/**
- * Generates a One-Time Password (OTP) based on the provided secret key.
- * Optionally adds prefix and postfix text to the generated token.
- * 
- * @param secret - The secret key used to generate the OTP
- * @param prefix - Optional text to add before the OTP (default: '')
- * @param postfix - Optional text to add after the OTP (default: '')
- * @returns The generated OTP with optional prefix and postfix
- */
-function generateOTP(secret: string, prefix: string = '', postfix: string = '') {
-  const token = authenticator.generate(secret);
-  return `${prefix}${token}${postfix}`;
-}
-
-/**
- * Interface representing an OTP configuration.
- * Contains all the information needed to generate and identify an OTP.
- */
-interface OTPConfig {
-  /** Unique identifier for the configuration */
-  id: string;
-  /** Name of the account associated with this OTP */
-  accountName: string;
-  /** Secret key used to generate the OTP */
-  secretKey: string;
-  /** Optional text to add before the OTP */
-  prefix: string;
-  /** Optional text to add after the OTP */
-  postfix: string;
-}
+import {Select, SelectContent, SelectItem, SelectTrigger, SelectValue} from '@/components/ui/select';
+import {OTPCard} from '@/components/OTPCard';
+import {AccountGrid} from '@/components/AccountGrid';
+import {AddEditDialog} from '@/components/AddEditDialog';
+import {VerifyDialog} from '@/components/VerifyDialog';
+import {ProvisionDialog} from '@/components/ProvisionDialog';
+import {HistoryDialog} from '@/components/HistoryDialog';
+import {AccountDetailsDialog} from '@/components/AccountDetailsDialog';
+import {TrashDialog} from '@/components/TrashDialog';
+import {ChangeHistoryDialog} from '@/components/ChangeHistoryDialog';
+import {DuplicatesDialog} from '@/components/DuplicatesDialog';
+import {DuplicateWarningDialog} from '@/components/DuplicateWarningDialog';
+import {VaultScreen} from '@/components/VaultScreen';
+import {DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger} from '@/components/ui/dropdown-menu';
+import {SidebarProvider, SidebarInset, SidebarTrigger} from '@/components/ui/sidebar';
+import {AccountSidebar} from '@/components/AccountSidebar';
+import {useOTP, ImportPlan} from '@/contexts/OTPContext';
+import {CustomField, OTPConfig, OTPType} from '@/lib/otp-config';
+import {TokenTypeRegistry, TokenSettings, TokenSettingValue} from '@/services/TokenTypeRegistry';
+import {normalizeSecret, SecretEncoding} from '@/lib/secret';
+import {formatOtp, fromVariableList, toVariableList, TemplateVariable, DEFAULT_OTP_TEMPLATE} from '@/lib/template';
+import {searchConfigs, SearchResult} from '@/lib/search';
+import {SORT_ORDERS, SortOrder, sortConfigs} from '@/lib/sort';
+import {normalizeCustomFields} from '@/lib/custom-fields';
+import {DuplicateMatch, findDuplicateGroups, findDuplicates} from '@/lib/duplicates';
+import {AccountFilter, NO_FILTER, collectFolders, collectTags, isSameLabel, matchesFilter, normalizeLabel, normalizeTags} from '@/lib/tags';
+
+/** Choices, in seconds before expiry, for when the next code is shown */
+const NEXT_CODE_THRESHOLD_OPTIONS = [0, 3, 5, 10, 15];
 
 /**
  * Main component for the OTP Manager Pro application.
  * Handles the display and management of OTP configurations, including adding,
  * editing, deleting, and generating OTP codes.
+ * Configuration state lives in the OTPContext; this component owns the dialog and scanner state.
  * 
  * @returns The rendered OTP Manager Pro application
  */
 export default function Home() {
-  /** State for storing all OTP configurations */
-  const [otpConfigs, setOtpConfigs] = useState<OTPConfig[]>([]);
+  /** OTP configurations and operations provided by the OTP context */
+  const {
+    otpConfigs,
+    trash,
+    revisions,
+    trashRetentionDays,
+    setTrashRetentionDays,
+    remainingTimes,
+    otpCodes,
+    nextOtpCodes,
+    nextCodeThreshold,
+    setNextCodeThreshold,
+    sortOrder,
+    setSortOrder,
+    clockOffset,
+    syncClock,
+    isOtpVisible,
+    toggleOtpVisibility,
+    addConfig,
+    updateConfig,
+    revertConfig,
+    deleteConfig,
+    mergeDuplicates,
+    restoreConfig,
+    purgeConfig,
+    emptyTrash,
+    moveConfig,
+    togglePinned,
+    copyOTP,
+    refreshOTP,
+    advanceCounter,
+    respondToChallenge,
+    verifyOTP,
+    clearUsedSteps,
+    prepareImport,
+    applyImport,
+    exportConfigs,
+    lockVault,
+  } = useOTP();
   /** Controls the visibility of the add/edit dialog */
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   /** Stores the account name for the current configuration being added/edited */
   const [accountName, setAccountName] = useState('');
+  /** Stores the issuer for the current configuration being added/edited */
+  const [issuer, setIssuer] = useState('');
+  /** Stores the manually chosen icon for the current configuration ('' to match the issuer) */
+  const [icon, setIcon] = useState('');
+  /** Stores the folder for the current configuration being added/edited ('' for none) */
+  const [folder, setFolder] = useState('');
+  /** Stores the tags for the current configuration being added/edited */
+  const [tags, setTags] = useState<string[]>([]);
+  /** Folder and tags the grid is filtered by */
+  const [filter, setFilter] = useState<AccountFilter>(NO_FILTER);
+  /** Text typed into the search box */
+  const [searchQuery, setSearchQuery] = useState('');
+  /** Reference to the search box, focused with the / shortcut */
+  const searchInputRef = useRef<HTMLInputElement>(null);
   /** Stores the secret key for the current configuration being added/edited */
   const [secretKey, setSecretKey] = useState('');
+  /** Stores the encoding the secret key is entered in */
+  const [secretEncoding, setSecretEncoding] = useState<SecretEncoding>('base32');
+  /** Stores the OTP type for the current configuration being added/edited */
+  const [otpType, setOtpType] = useState<OTPType>(TokenTypeRegistry.DEFAULT_TYPE);
+  /** Stores the token type settings (counter, digits, PIN, ...) for the current configuration being added/edited */
+  const [settings, setSettings] = useState<TokenSettings>({});
   /** Stores the prefix for the current configuration being added/edited */
   const [prefix, setPrefix] = useState('');
   /** Stores the postfix for the current configuration being added/edited */
   const [postfix, setPostfix] = useState('');
+  /** Stores the template of the final copied string for the current configuration being added/edited */
+  const [template, setTemplate] = useState(DEFAULT_OTP_TEMPLATE);
+  /** Stores the template variables for the current configuration being added/edited */
+  const [variables, setVariables] = useState<TemplateVariable[]>([]);
+  /** Stores the notes for the current configuration being added/edited */
+  const [notes, setNotes] = useState('');
+  /** Stores the custom fields for the current configuration being added/edited */
+  const [customFields, setCustomFields] = useState<CustomField[]>([]);
   /** ID of the configuration being edited, or null when adding a new configuration */
   const [selectedConfigId, setSelectedConfigId] = useState<string | null>(null);
+  /** Controls the visibility of the provisioning dialog */
+  const [isProvisionOpen, setIsProvisionOpen] = useState(false);
+  /** Configuration whose codes are being verified, or null when the verifier is closed */
+  const [verifyingConfig, setVerifyingConfig] = useState<OTPConfig | null>(null);
+  /** Configuration whose code history is being looked up, or null when the history is closed */
+  const [historyConfig, setHistoryConfig] = useState<OTPConfig | null>(null);
+  /** Configuration whose notes and custom fields are shown, or null when they are closed */
+  const [detailsConfig, setDetailsConfig] = useState<OTPConfig | null>(null);
+  /** ID of the configuration whose change history is shown, or null when it is closed */
+  const [changesConfigId, setChangesConfigId] = useState<string | null>(null);
+  /** Controls the visibility of the trash */
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  /** Controls the visibility of the duplicate accounts */
+  const [isDuplicatesOpen, setIsDuplicatesOpen] = useState(false);
+  /** New configuration waiting for the user to confirm adding it despite its duplicates, or null */
+  const [pendingAdd, setPendingAdd] = useState<{
+    config: Omit<OTPConfig, 'id'>;
+    matches: DuplicateMatch[];
+    onAdded: () => void;
+  } | null>(null);
+  /** Import waiting for the user to confirm it despite its duplicates, or null */
+  const [pendingImport, setPendingImport] = useState<ImportPlan | null>(null);
   /** Hook for displaying toast notifications */
   const {toast} = useToast();
 
@@ -108,25 +162,14 @@ export default function Home() {
   const [hasCameraPermission, setHasCameraPermission] = useState(false);
 
   /**
-   * Effect hook to load OTP configurations from local storage when the component mounts.
-   * This ensures that user configurations persist between sessions.
-   */
-  useEffect(() => {
-    // Load configurations from local storage on component mount
-    const storedConfigs = localStorage.getItem('otpConfigs');
-    if (storedConfigs) {
-      setOtpConfigs(JSON.parse(storedConfigs));
-    }
-  }, []);
-
-  /**
-   * Effect hook to save OTP configurations to local storage whenever they change.
-   * This ensures that user configurations are always up-to-date in storage.
+   * Updates a single token type setting of the configuration being added/edited.
+   * 
+   * @param key - The field key of the setting
+   * @param value - The new value
    */
-  useEffect(() => {
-    // Save configurations to local storage whenever otpConfigs changes
-    localStorage.setItem('otpConfigs', JSON.stringify(otpConfigs));
-  }, [otpConfigs]);
+  const setSetting = (key: string, value: TokenSettingValue) => {
+    setSettings((prevSettings) => ({...prevSettings, [key]: value}));
+  };
 
   /**
    * Handles the action of adding a new OTP configuration.
@@ -136,9 +179,20 @@ export default function Home() {
     setIsDialogOpen(true);
     setSelectedConfigId(null); // Reset selected config for adding new config
     setAccountName('');
+    setIssuer('');
+    setIcon('');
+    setFolder('');
+    setTags([]);
     setSecretKey('');
+    setSecretEncoding('base32');
+    setOtpType(TokenTypeRegistry.DEFAULT_TYPE);
+    setSettings({});
     setPrefix('');
     setPostfix('');
+    setTemplate(DEFAULT_OTP_TEMPLATE);
+    setVariables([]);
+    setNotes('');
+    setCustomFields([]);
   };
 
   /**
@@ -151,15 +205,32 @@ export default function Home() {
     setIsDialogOpen(true);
     setSelectedConfigId(config.id);
     setAccountName(config.accountName);
+    setIssuer(config.issuer ?? '');
+    setIcon(config.icon ?? '');
+    setFolder(config.folder ?? '');
+    setTags(config.tags ?? []);
     setSecretKey(config.secretKey);
+    setSecretEncoding('base32');
+    setOtpType(config.type ?? TokenTypeRegistry.DEFAULT_TYPE);
+    setSettings(TokenTypeRegistry.readSettings(config));
     setPrefix(config.prefix);
     setPostfix(config.postfix);
+    setTemplate(config.template || DEFAULT_OTP_TEMPLATE);
+    setVariables(toVariableList(config.variables));
+    setNotes(config.notes ?? '');
+    setCustomFields(config.customFields ?? []);
   };
 
   /**
    * Handles saving a new or updated OTP configuration.
-   * Validates required fields, creates or updates the configuration,
-   * and displays a success or error message.
+   * Validates required fields and normalizes the secret key to canonical base32
+   * (except for token types that use it as text, e.g. mOTP), keeps only the
+   * settings of the selected token type (parsing the number fields, which are
+   * edited as text) and lets the type validate them, checks the template and its
+   * variables and cleans up the custom fields, then creates or updates the
+   * configuration through the OTP context, which validates it against the schema
+   * and displays the success or error message. A new configuration that
+   * duplicates existing ones is only added once the user confirms it.
    */
   const handleSaveConfig = () => {
     if (!accountName || !secretKey) {
@@ -171,123 +242,124 @@ export default function Home() {
       return;
     }
 
-    const newConfig = {
-      id: selectedConfigId || Math.random().toString(36).substring(7),
-      accountName,
-      secretKey,
-      prefix,
-      postfix,
-    };
-
-    setOtpConfigs((prevConfigs) => {
-      const updatedConfigs = selectedConfigId
-        ? prevConfigs.map((config) =>
-            config.id === selectedConfigId ? newConfig : config
-          )
-        : [...prevConfigs, newConfig];
-      return updatedConfigs;
-    });
-
-    setIsDialogOpen(false);
-    toast({
-      title: 'Success',
-      description: `Configuration ${selectedConfigId ? 'updated' : 'added'} successfully.`,
-    });
-  };
+    let configData: Omit<OTPConfig, 'id'>;
+    try {
+      const definition = TokenTypeRegistry.get(otpType);
+      configData = {
+        accountName,
+        issuer: issuer.trim() || undefined,
+        icon: icon || undefined,
+        folder: normalizeLabel(folder) || undefined,
+        tags: normalizeTags(tags),
+        secretKey: definition.secretFormat === 'text'
+          ? secretKey.trim()
+          : normalizeSecret(secretKey, secretEncoding).secret,
+        type: otpType,
+        ...TokenTypeRegistry.buildSettings(otpType, settings),
+        prefix,
+        postfix,
+        template: template && template !== DEFAULT_OTP_TEMPLATE ? template : undefined,
+        variables: fromVariableList(variables),
+        notes: notes.trim() ? notes : undefined,
+        customFields: normalizeCustomFields(customFields),
+      };
+      definition.validate?.(configData);
+      formatOtp(configData, ''); // Throws if the template is invalid
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Invalid configuration.',
+        variant: 'destructive',
+      });
+      return;
+    }
 
-  /**
-   * Handles the deletion of an OTP configuration.
-   * Removes the configuration with the specified ID and displays a success message.
-   * 
-   * @param id - The ID of the configuration to delete
-   */
-  const handleDeleteConfig = (id: string) => {
-    setOtpConfigs((prevConfigs) =>
-      prevConfigs.filter((config) => config.id !== id)
-    );
-    toast({
-      title: 'Success',
-      description: 'Configuration deleted successfully.',
-    });
+    if (selectedConfigId) {
+      const existingConfig = otpConfigs.find((config) => config.id === selectedConfigId);
+      // The OTP context reports why a configuration could not be saved; keep the dialog open to fix it
+      if (updateConfig({
+        ...configData,
+        id: selectedConfigId,
+        pinned: existingConfig?.pinned,
+        lastUsedAt: existingConfig?.lastUsedAt,
+      })) {
+        setIsDialogOpen(false);
+      }
+    } else {
+      addCheckedConfig(configData, () => setIsDialogOpen(false));
+    }
   };
 
   /**
-   * Handles copying an OTP code to the clipboard.
-   * Generates the OTP using the provided secret, prefix, and postfix,
-   * copies it to the clipboard, and displays a success message.
+   * Adds a new configuration, asking the user to confirm it first if it
+   * duplicates existing ones.
    * 
-   * @param secret - The secret key used to generate the OTP
-   * @param prefix - Text to add before the OTP
-   * @param postfix - Text to add after the OTP
+   * @param config - The configuration to add
+   * @param onAdded - Function to call once the configuration is added, e.g. to close the dialog it was entered in
    */
-  const handleCopyOTP = (secret: string, prefix: string, postfix: string) => {
-    const otp = generateOTP(secret, prefix, postfix);
-    navigator.clipboard.writeText(otp);
-    toast({
-      title: 'OTP Copied',
-      description: 'OTP copied to clipboard.',
-    });
+  const addCheckedConfig = (config: Omit<OTPConfig, 'id'>, onAdded: () => void) => {
+    const matches = findDuplicates(config, otpConfigs);
+    if (matches.length > 0) {
+      setPendingAdd({config, matches, onAdded});
+    } else if (addConfig(config)) {
+      onAdded();
+    }
   };
 
-  /** 
-   * State to track the remaining time (in seconds) for each OTP before it expires
-   * Keys are configuration IDs, values are seconds remaining
-   */
-  const [remainingTimes, setRemainingTimes] = useState<{
-    [key: string]: number;
-  }>({});
-
   /**
-   * Calculates the remaining time for each OTP configuration before it expires.
-   * TOTP codes typically change every 30 seconds, so this calculates how many
-   * seconds are left in the current period.
+   * Adds the new configuration the user confirmed despite its duplicates.
    */
-  const calculateRemainingTime = () => {
-    const newRemainingTimes: {[key: string]: number} = {};
-    otpConfigs.forEach((config) => {
-      newRemainingTimes[config.id] = 30 - (Math.floor(Date.now() / 1000) % 30);
-    });
-    setRemainingTimes(newRemainingTimes);
+  const confirmPendingAdd = () => {
+    if (pendingAdd && addConfig(pendingAdd.config)) {
+      pendingAdd.onAdded();
+    }
+    setPendingAdd(null);
   };
 
   /**
-   * Effect hook to update the remaining time for each OTP every second.
-   * Sets up an interval that runs every second and cleans it up when the component unmounts.
-   */
-  useEffect(() => {
-    calculateRemainingTime();
-    const intervalId = setInterval(calculateRemainingTime, 1000);
-    return () => clearInterval(intervalId);
-  }, [otpConfigs]);
-
-  /**
-   * Handles refreshing and copying an OTP code.
-   * Generates a new OTP, copies it to the clipboard, and displays a success message.
+   * Populates the form fields from a scanned or uploaded otpauth:// URI.
+   * Shows an error message if the data is not a valid OTP URI, its token type cannot be
+   * imported from URIs, or its secret is not valid base32.
    * 
-   * @param secret - The secret key used to generate the OTP
-   * @param prefix - Text to add before the OTP
-   * @param postfix - Text to add after the OTP
-   */
-  const handleRefreshOTP = (secret: string, prefix: string, postfix: string) => {
-    // For simplicity, directly copy the new OTP without waiting for the timer
-    const otp = generateOTP(secret, prefix, postfix);
-    navigator.clipboard.writeText(otp);
-    toast({
-      title: 'OTP Refreshed and Copied',
-      description: 'New OTP copied to clipboard.',
-    });
-  };
-
-  /** Controls whether OTP codes are visible or masked (for security) */
-  const [isOtpVisible, setIsOtpVisible] = useState(false);
-
-  /**
-   * Toggles the visibility of OTP codes between shown and hidden.
-   * This allows users to see the actual OTP code when needed while keeping it
-   * hidden from shoulder surfers by default.
+   * @param data - The text decoded from a QR code
    */
-  const toggleOtpVisibility = () => {
-    setIsOtpVisible(!isOtpVisible);
+  const applyOtpAuthUri = (data: string) => {
+    const otpAuthData = parseOtpAuthUri(data);
+    if (!otpAuthData) {
+      toast({
+        title: 'Error',
+        description: 'The QR code does not contain a valid OTP configuration.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    const definition = TokenTypeRegistry.find(otpAuthData.type);
+    if (!definition?.fromUri) {
+      toast({
+        title: 'Error',
+        description: `The QR code contains an unsupported token type "${otpAuthData.type}".`,
+        variant: 'destructive',
+      });
+      return;
+    }
+    let normalizedSecretKey: string;
+    try {
+      normalizedSecretKey = normalizeSecret(otpAuthData.parameters.secret).secret;
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'The QR code contains an invalid secret key.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    setSecretKey(normalizedSecretKey);
+    setSecretEncoding('base32');
+    setAccountName(otpAuthData.label.account);
+    setIssuer(otpAuthData.parameters.issuer ?? otpAuthData.label.issuer ?? '');
+    setOtpType(definition.id);
+    setSettings(definition.fromUri(otpAuthData));
+    setIsDialogOpen(true);
   };
 
   /**
@@ -353,9 +425,8 @@ export default function Home() {
         });
 
         if (code) {
-          setSecretKey(code.data);
           setIsScanning(false);
-          setIsDialogOpen(true);
+          applyOtpAuthUri(code.data);
         } else {
           requestAnimationFrame(tick);
         }
@@ -392,10 +463,7 @@ export default function Home() {
         if (imageData) {
           const code = jsQR(imageData.data, imageData.width, imageData.height);
           if (code) {
-            const otpAuthData = parseOtpAuthUri(code.data);
-            setSecretKey(otpAuthData?.parameters?.secret || '');
-            setAccountName(otpAuthData?.label?.account || '');
-            setIsDialogOpen(true);
+            applyOtpAuthUri(code.data);
           } else {
             toast({
               title: 'Error',
@@ -413,25 +481,52 @@ export default function Home() {
   };
 
   /**
-   * Handles exporting all OTP configurations to a JSON file.
-   * Creates a downloadable file containing all the user's OTP configurations.
+   * Effect hook to focus the search box when / is pressed outside of text fields.
+   */
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      const isTyping = target?.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target?.tagName ?? '');
+      if (event.key === '/' && !isTyping && !event.ctrlKey && !event.metaKey && !event.altKey) {
+        event.preventDefault();
+        searchInputRef.current?.focus();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  /**
+   * Handles key presses in the search box.
+   * Enter copies the code of the top result and Escape clears the search.
+   * 
+   * @param event - The keyboard event
    */
-  const handleExportConfig = () => {
-    const jsonString = JSON.stringify(otpConfigs);
-    const blob = new Blob([jsonString], {type: 'application/json'});
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'otpConfigs.json';
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  const handleSearchKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Escape') {
+      setSearchQuery('');
+      event.currentTarget.blur();
+    } else if (event.key === 'Enter' && searchQuery.trim()) {
+      const topResult = searchResults[0];
+      if (!topResult) {
+        return;
+      }
+      if (TokenTypeRegistry.find(topResult.config.type)?.generate) {
+        copyOTP(topResult.config);
+      } else {
+        toast({
+          title: 'Nothing to copy',
+          description: `"${topResult.config.accountName}" has no code to copy.`,
+        });
+      }
+    }
   };
 
   /**
-   * Handles importing OTP configurations from a JSON file.
-   * Reads the file, parses the JSON, and updates the application state with the imported configurations.
+   * Handles importing OTP configurations from a JSON file or an encrypted backup.
+   * Reads the file, parses the JSON and has the OTP context check the configurations.
+   * If any of them duplicate existing ones or each other, the user is asked to
+   * confirm the import first.
    * 
    * @param event - The change event from the file input element
    */
@@ -442,15 +537,15 @@ export default function Home() {
     }
 
     const reader = new FileReader();
-    reader.onload = (e) => {
+    reader.onload = async (e) => {
       try {
         const jsonString = e.target?.result as string;
-        const importedConfigs = JSON.parse(jsonString) as OTPConfig[];
-        setOtpConfigs(importedConfigs);
-        toast({
-          title: 'Success',
-          description: 'Configurations imported successfully.',
-        });
+        const plan = await prepareImport(JSON.parse(jsonString));
+        if (plan && plan.duplicates.length > 0) {
+          setPendingImport(plan);
+        } else if (plan) {
+          applyImport(plan);
+        }
       } catch (error) {
         toast({
           title: 'Error',
@@ -462,210 +557,326 @@ export default function Home() {
     reader.readAsText(file);
   };
 
+  /** Folders that hold any account */
+  const folders = collectFolders(otpConfigs);
+  /** Tags used by any account */
+  const allTags = collectTags(otpConfigs);
+  /** Sets of accounts that duplicate each other */
+  const duplicateGroups = findDuplicateGroups(otpConfigs);
+  /** The filter, without folders and tags that no account uses any more */
+  const activeFilter: AccountFilter = {
+    folder: folders.some(({name}) => filter.folder !== null && isSameLabel(name, filter.folder)) ? filter.folder : null,
+    tags: filter.tags.filter((tag) => allTags.some(({name}) => isSameLabel(name, tag))),
+  };
+  /** Configurations in the selected folder and with the selected tags */
+  const visibleConfigs = otpConfigs.filter((config) => matchesFilter(config, activeFilter));
+  /** Whether a search is active; search results are shown by relevance, without the pinned section */
+  const isSearching = searchQuery.trim() !== '';
+  /** Configurations shown in the grid: those matching the search, best match first, or all in the sort order */
+  const searchResults: SearchResult[] = isSearching
+    ? searchConfigs(visibleConfigs, searchQuery)
+    : sortConfigs(visibleConfigs, sortOrder).map((config) => ({config, score: 0, highlights: {}}));
+  /** Pinned configurations, shown above the others unless searching */
+  const pinnedResults = isSearching ? [] : searchResults.filter(({config}) => config.pinned);
+  /** Configurations shown below the pinned ones */
+  const otherResults = isSearching ? searchResults : searchResults.filter(({config}) => !config.pinned);
+  /** Whether cards can be dragged into a new order: only in the manual order, and not while searching */
+  const isReorderable = sortOrder === 'manual' && !isSearching;
+
+  /**
+   * Renders the card of an account in the grid.
+   * 
+   * @param result - The account, with where the search matched it
+   * @returns The rendered card
+   */
+  const renderCard = ({config, highlights}: SearchResult) => (
+    <OTPCard
+      config={config}
+      otpCode={otpCodes[config.id] ?? ''}
+      nextOtpCode={nextOtpCodes[config.id]}
+      isOtpVisible={isOtpVisible}
+      remainingTime={remainingTimes[config.id]}
+      onCopy={copyOTP}
+      onRefresh={refreshOTP}
+      onNextCode={advanceCounter}
+      onRespond={respondToChallenge}
+      onVerify={setVerifyingConfig}
+      onShowHistory={setHistoryConfig}
+      onShowDetails={setDetailsConfig}
+      onShowChanges={revisions[config.id]?.length ? ({id}) => setChangesConfigId(id) : undefined}
+      onEdit={handleEditConfig}
+      onDelete={deleteConfig}
+      onTogglePin={togglePinned}
+      onToggleVisibility={toggleOtpVisibility}
+      highlights={highlights}
+    />
+  );
+
   return (
-    <div className="container mx-auto p-4">
-      <div className="flex justify-between items-center mb-4">
-        <h1 className="text-2xl font-bold">OTP Manager Pro</h1>
-        <div>
-          <Button onClick={handleAddConfig} className="mr-2">
-            <Plus className="mr-2 h-4 w-4" />
-            Add Configuration
-          </Button>
-          <ButtonGroup>
-            <Button variant="secondary" onClick={handleExportConfig}>
-              <Download className="mr-2 h-4 w-4" />
-              Export
-            </Button>
-            <Input
-              type="file"
-              id="importConfig"
-              accept=".json"
-              className="hidden"
-              onChange={handleImportConfig}
-            />
-            <Label htmlFor="importConfig">
-              <Button variant="secondary">
-                <Upload className="mr-2 h-4 w-4" />
-                Import
-              </Button>
-            </Label>
-          </ButtonGroup>
-        </div>
-      </div>
-      <div className="grid gap-4 grid-cols-1 md:grid-cols-2 lg:grid-cols-3">
-        {otpConfigs.map((config) => (
-          <Card key={config.id}>
-            <CardHeader>
-              <CardTitle>{config.accountName}</CardTitle>
-            </CardHeader>
-            <CardContent className="flex flex-col space-y-2">
-              <div className="text-lg font-bold text-center">
-                <Input
-                  type={isOtpVisible ? 'text' : 'password'}
-                  value={generateOTP(config.secretKey, config.prefix, config.postfix)}
-                  readOnly
-                  className="text-lg font-bold text-center"
-                />
-              </div>
-              <div className="text-center">
-                <Button variant="ghost" size="sm" onClick={toggleOtpVisibility}>
-                  {isOtpVisible ? 'Hide' : 'Show'} OTP
-                </Button>
-              </div>
-              {remainingTimes[config.id] !== undefined && (
-                <div className="text-sm text-muted-foreground text-center">
-                  Expires in {remainingTimes[config.id]} seconds
-                </div>
-              )}
-              <div className="flex justify-between">
-                <Button
-                  variant="outline"
-                  size="icon"
-                  onClick={() =>
-                    handleCopyOTP(config.secretKey, config.prefix, config.postfix)
-                  }
-                >
-                  <Copy className="h-4 w-4" />
-                </Button>
-                <Button
-                  variant="outline"
-                  size="icon"
-                  onClick={() =>
-                    handleRefreshOTP(config.secretKey, config.prefix, config.postfix)
-                  }
-                >
-                  <RefreshCw className="h-4 w-4" />
-                </Button>
-                <Button
-                  variant="secondary"
-                  size="icon"
-                  onClick={() => handleEditConfig(config)}
-                >
-                  <Edit className="h-4 w-4" />
-                </Button>
-                <Button
-                  variant="destructive"
-                  size="icon"
-                  onClick={() => handleDeleteConfig(config.id)}
-                >
-                  <Trash2 className="h-4 w-4" />
-                </Button>
-              </div>
-            </CardContent>
-          </Card>
-        ))}
-      </div>
-
-      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-        <DialogTrigger asChild>
-          <Button variant="outline" className="hidden">
-            {/* This button is hidden, the add button triggers the dialog */}
-            Open Dialog
-          </Button>
-        </DialogTrigger>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>{selectedConfigId ? 'Edit' : 'Add'} OTP Configuration</DialogTitle>
-            <DialogDescription>
-              Enter the details for the OTP configuration.
-            </DialogDescription>
-          </DialogHeader>
-
-          {isScanning ? (
-            <>
-              <video ref={videoRef} className="w-full aspect-video rounded-md" autoPlay muted />
-              <canvas ref={canvasRef} className="hidden" />
-              {!hasCameraPermission && (
-                <Alert variant="destructive">
-                  <AlertTitle>Camera Access Required</AlertTitle>
-                  <AlertDescription>
-                    Please allow camera access to use this feature.
-                  </AlertDescription>
-                </Alert>
-              )}
-            </>
-          ) : (
-            <div className="grid gap-4 py-4">
-              <div className="grid grid-cols-4 items-center gap-4">
-                <Label htmlFor="accountName" className="text-right">
-                  Account Name
-                </Label>
-                <Input
-                  type="text"
-                  id="accountName"
-                  value={accountName}
-                  onChange={(e) => setAccountName(e.target.value)}
-                  className="col-span-3"
-                />
-              </div>
-              <div className="grid grid-cols-4 items-center gap-4">
-                <Label htmlFor="secretKey" className="text-right">
-                  Secret Key
-                </Label>
-                <Textarea
-                  id="secretKey"
-                  value={secretKey}
-                  onChange={(e) => setSecretKey(e.target.value)}
-                  className="col-span-3"
-                />
-              </div>
-              <div className="grid grid-cols-4 items-center gap-4">
-                <Label htmlFor="prefix" className="text-right">
-                  Prefix
-                </Label>
-                <Input
-                  type="text"
-                  id="prefix"
-                  value={prefix}
-                  onChange={(e) => setPrefix(e.target.value)}
-                  className="col-span-3"
-                />
+    <SidebarProvider>
+      <AccountSidebar
+        totalCount={otpConfigs.length}
+        folders={folders}
+        tags={allTags}
+        filter={activeFilter}
+        onFilterChange={setFilter}
+        trashCount={trash.length}
+        onOpenTrash={() => setIsTrashOpen(true)}
+        duplicateCount={duplicateGroups.reduce((count, group) => count + group.configs.length, 0)}
+        onOpenDuplicates={() => setIsDuplicatesOpen(true)}
+      />
+      <SidebarInset>
+        <div className="container mx-auto p-4">
+          <div className="flex justify-between items-center mb-4">
+            <div>
+              <div className="flex items-center gap-2">
+                <SidebarTrigger />
+                <h1 className="text-2xl font-bold">OTP Manager Pro</h1>
               </div>
-              <div className="grid grid-cols-4 items-center gap-4">
-                <Label htmlFor="postfix" className="text-right">
-                  Postfix
-                </Label>
-                <Input
-                  type="text"
-                  id="postfix"
-                  value={postfix}
-                  onChange={(e) => setPostfix(e.target.value)}
-                  className="col-span-3"
-                />
-              </div>
-
-              <div className="flex items-center justify-between">
-                <Button
-                  variant="secondary"
-                  onClick={handleScanQRCode}
-                  disabled={isScanning}
-                >
-                  <Camera className="mr-2 h-4 w-4" />
-                  Scan QR Code
-                </Button>
+              <button
+                type="button"
+                onClick={syncClock}
+                className="flex items-center text-sm text-muted-foreground hover:text-foreground"
+                title="Synchronize clock with the server"
+              >
+                <Clock className="mr-1 h-3 w-3" />
+                {clockOffset === null
+                  ? 'Clock not synchronized'
+                  : `Clock offset: ${clockOffset >= 0 ? '+' : ''}${(clockOffset / 1000).toFixed(1)}s`}
+              </button>
+            </div>
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Label htmlFor="nextCodeThreshold">Show next code</Label>
+              <Select
+                value={String(nextCodeThreshold)}
+                onValueChange={(value) => setNextCodeThreshold(parseInt(value, 10))}
+              >
+                <SelectTrigger id="nextCodeThreshold" className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {NEXT_CODE_THRESHOLD_OPTIONS.map((seconds) => (
+                    <SelectItem key={seconds} value={String(seconds)}>
+                      {seconds === 0 ? 'Never' : `Last ${seconds} seconds`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Button onClick={handleAddConfig} className="mr-2">
+                <Plus className="mr-2 h-4 w-4" />
+                Add Configuration
+              </Button>
+              <Button variant="outline" onClick={() => setIsProvisionOpen(true)} className="mr-2">
+                <QrCode className="mr-2 h-4 w-4" />
+                Provision
+              </Button>
+              <ButtonGroup>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="secondary">
+                      <Download className="mr-2 h-4 w-4" />
+                      Export
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent>
+                    <DropdownMenuItem onSelect={() => exportConfigs(true)}>
+                      Encrypted backup
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onSelect={() => exportConfigs(false)}>
+                      Plain JSON (without prefixes, postfixes, variables and notes)
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
                 <Input
                   type="file"
-                  id="imageUpload"
-                  accept="image/*"
+                  id="importConfig"
+                  accept=".json"
                   className="hidden"
-                  onChange={handleImageUpload}
+                  onChange={handleImportConfig}
                 />
-                <Label htmlFor="imageUpload" className="cursor-pointer">
-                  <span className="inline-flex items-center justify-center whitespace-nowrap rounded-md text-sm font-medium ring-offset-background transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50 bg-secondary text-secondary-foreground hover:bg-secondary/80 h-10 px-4 py-2">
-                    <ImageIcon className="mr-2 h-4 w-4" />
-                    <span>Upload QR Code</span>
-                  </span>
+                <Label htmlFor="importConfig">
+                  <Button variant="secondary">
+                    <Upload className="mr-2 h-4 w-4" />
+                    Import
+                  </Button>
                 </Label>
-              </div>
+              </ButtonGroup>
+              <Button variant="outline" onClick={lockVault} className="ml-2" title="Lock">
+                <Lock className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+          <div className="flex items-center gap-2 mb-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                ref={searchInputRef}
+                type="search"
+                placeholder="Search accounts (press / to focus, Enter to copy the top result)"
+                aria-label="Search accounts"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                onKeyDown={handleSearchKeyDown}
+                className="pl-9"
+              />
+            </div>
+            <Label htmlFor="sortOrder" className="text-sm text-muted-foreground">Sort by</Label>
+            <Select value={sortOrder} onValueChange={(value) => setSortOrder(value as SortOrder)}>
+              <SelectTrigger id="sortOrder" className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SORT_ORDERS.map(({value, label}) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-6">
+            {pinnedResults.length > 0 && (
+              <AccountGrid
+                title="Pinned"
+                results={pinnedResults}
+                reorderable={isReorderable}
+                onMove={moveConfig}
+                renderCard={renderCard}
+              />
+            )}
+            <AccountGrid
+              title={pinnedResults.length > 0 && otherResults.length > 0 ? 'Other accounts' : undefined}
+              results={otherResults}
+              reorderable={isReorderable}
+              onMove={moveConfig}
+              renderCard={renderCard}
+            />
+          </div>
+          {searchResults.length === 0 && otpConfigs.length > 0 && (
+            <div className="text-center text-muted-foreground py-8">
+              {searchQuery.trim()
+                ? `No accounts match "${searchQuery.trim()}".`
+                : 'No accounts match the selected folder and tags.'}
             </div>
           )}
-          <DialogFooter>
-            <Button type="submit" onClick={handleSaveConfig}>
-              Save Configuration
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
-    </div>
+
+          <AddEditDialog
+            isOpen={isDialogOpen}
+            onOpenChange={setIsDialogOpen}
+            selectedConfigId={selectedConfigId}
+            accountName={accountName}
+            setAccountName={setAccountName}
+            issuer={issuer}
+            setIssuer={setIssuer}
+            icon={icon}
+            setIcon={setIcon}
+            folder={folder}
+            setFolder={setFolder}
+            tags={tags}
+            setTags={setTags}
+            knownFolders={folders.map(({name}) => name)}
+            knownTags={allTags.map(({name}) => name)}
+            secretKey={secretKey}
+            setSecretKey={setSecretKey}
+            secretEncoding={secretEncoding}
+            setSecretEncoding={setSecretEncoding}
+            otpType={otpType}
+            setOtpType={setOtpType}
+            settings={settings}
+            setSetting={setSetting}
+            prefix={prefix}
+            setPrefix={setPrefix}
+            postfix={postfix}
+            setPostfix={setPostfix}
+            template={template}
+            setTemplate={setTemplate}
+            variables={variables}
+            setVariables={setVariables}
+            notes={notes}
+            setNotes={setNotes}
+            customFields={customFields}
+            setCustomFields={setCustomFields}
+            onSave={handleSaveConfig}
+            onScanQRCode={handleScanQRCode}
+            onImageUpload={handleImageUpload}
+            isScanning={isScanning}
+            hasCameraPermission={hasCameraPermission}
+            videoRef={videoRef}
+            canvasRef={canvasRef}
+          />
+
+          <ProvisionDialog
+            isOpen={isProvisionOpen}
+            onOpenChange={setIsProvisionOpen}
+            onSave={(config) => addCheckedConfig(config, () => setIsProvisionOpen(false))}
+          />
+
+          <VerifyDialog
+            config={verifyingConfig}
+            onOpenChange={(open) => !open && setVerifyingConfig(null)}
+            onVerify={verifyOTP}
+            onClearUsedSteps={clearUsedSteps}
+          />
+
+          <HistoryDialog
+            config={historyConfig}
+            onOpenChange={(open) => !open && setHistoryConfig(null)}
+          />
+
+          <AccountDetailsDialog
+            config={detailsConfig}
+            onOpenChange={(open) => !open && setDetailsConfig(null)}
+          />
+
+          <ChangeHistoryDialog
+            config={otpConfigs.find(({id}) => id === changesConfigId) ?? null}
+            revisions={changesConfigId ? revisions[changesConfigId] ?? [] : []}
+            onOpenChange={(open) => !open && setChangesConfigId(null)}
+            onRevert={revertConfig}
+          />
+
+          <TrashDialog
+            isOpen={isTrashOpen}
+            onOpenChange={setIsTrashOpen}
+            trash={trash}
+            retentionDays={trashRetentionDays}
+            onRetentionChange={setTrashRetentionDays}
+            onRestore={restoreConfig}
+            onPurge={purgeConfig}
+            onEmpty={emptyTrash}
+          />
+
+          <DuplicatesDialog
+            isOpen={isDuplicatesOpen}
+            onOpenChange={setIsDuplicatesOpen}
+            groups={duplicateGroups}
+            onMerge={mergeDuplicates}
+          />
+
+          <DuplicateWarningDialog
+            duplicates={pendingAdd && [{config: pendingAdd.config, matches: pendingAdd.matches}]}
+            action="add"
+            onOpenChange={(open) => !open && setPendingAdd(null)}
+            onConfirm={confirmPendingAdd}
+          />
+
+          <DuplicateWarningDialog
+            duplicates={pendingImport?.duplicates ?? null}
+            action="import"
+            onOpenChange={(open) => !open && setPendingImport(null)}
+            onConfirm={() => {
+              if (pendingImport) {
+                applyImport(pendingImport);
+              }
+              setPendingImport(null);
+            }}
+          />
+
+          <VaultScreen />
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
   );
 }
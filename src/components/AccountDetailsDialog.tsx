@@ -0,0 +1,140 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Copy, Eye, EyeOff } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { CustomField, OTPConfig } from '@/lib/otp-config';
+import { getCustomFieldHref } from '@/lib/custom-fields';
+
+/**
+ * Props for the AccountDetailsDialog component
+ */
+interface AccountDetailsDialogProps {
+  /** The configuration whose notes and custom fields are shown, or null when the dialog is closed */
+  config: OTPConfig | null;
+  /** Function to call when the dialog open state changes */
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Component that displays a dialog with the notes and custom fields of an account.
+ * Secret field values are masked until revealed; email, phone and URL values are
+ * links, and every value can be copied.
+ * 
+ * @param props - The component props
+ * @returns The rendered dialog component
+ */
+export function AccountDetailsDialog({ config, onOpenChange }: AccountDetailsDialogProps) {
+  /** Whether secret field values are shown instead of masked */
+  const [showSecrets, setShowSecrets] = useState(false);
+  /** Hook for displaying toast notifications */
+  const { toast } = useToast();
+
+  /** Custom fields of the configuration */
+  const fields = config?.customFields ?? [];
+  /** Whether any field is a secret, to offer the reveal button */
+  const hasSecrets = fields.some((field) => field.type === 'secret');
+
+  /**
+   * Effect hook to mask the secret values again whenever another configuration is shown.
+   */
+  useEffect(() => {
+    setShowSecrets(false);
+  }, [config?.id]);
+
+  /**
+   * Copies a custom field's value to the clipboard.
+   * 
+   * @param field - The field to copy
+   */
+  const copyValue = (field: CustomField) => {
+    navigator.clipboard.writeText(field.value);
+    toast({
+      title: 'Copied',
+      description: `${field.name} copied to clipboard.`,
+    });
+  };
+
+  /**
+   * Renders a custom field's value: masked, as a link or as text.
+   * 
+   * @param field - The field to render
+   * @returns The rendered value
+   */
+  const renderValue = (field: CustomField) => {
+    if (field.type === 'secret' && !showSecrets) {
+      return <span className="font-mono">{'•'.repeat(Math.min(field.value.length, 12))}</span>;
+    }
+    const href = getCustomFieldHref(field);
+    if (href) {
+      return (
+        <a
+          href={href}
+          target={field.type === 'url' ? '_blank' : undefined}
+          rel={field.type === 'url' ? 'noopener noreferrer' : undefined}
+          className="text-primary underline-offset-4 hover:underline"
+        >
+          {field.value}
+        </a>
+      );
+    }
+    return <span className={field.type === 'secret' ? 'font-mono' : undefined}>{field.value}</span>;
+  };
+
+  return (
+    <Dialog open={config !== null} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Notes for {config?.accountName}</DialogTitle>
+          <DialogDescription>
+            Notes and custom fields are stored encrypted with your password.
+          </DialogDescription>
+        </DialogHeader>
+
+        {config?.notes && (
+          <p className="whitespace-pre-wrap break-words rounded-md bg-muted p-3 text-sm">{config.notes}</p>
+        )}
+
+        {fields.length > 0 && (
+          <div className="space-y-2">
+            {hasSecrets && (
+              <div className="flex justify-end">
+                <Button variant="ghost" size="sm" onClick={() => setShowSecrets(!showSecrets)}>
+                  {showSecrets ? <EyeOff className="mr-2 h-4 w-4" /> : <Eye className="mr-2 h-4 w-4" />}
+                  {showSecrets ? 'Hide' : 'Show'} secrets
+                </Button>
+              </div>
+            )}
+            <dl className="divide-y rounded-md border">
+              {fields.map((field, index) => (
+                <div key={index} className="flex items-center gap-3 p-2 text-sm">
+                  <dt className="w-1/3 shrink-0 truncate text-muted-foreground" title={field.name}>
+                    {field.name}
+                  </dt>
+                  <dd className="min-w-0 flex-1 break-words">{renderValue(field)}</dd>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    onClick={() => copyValue(field)}
+                    title={`Copy ${field.name}`}
+                  >
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </dl>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,153 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { GripVertical } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { SearchResult } from '@/lib/search';
+
+/**
+ * Props for the AccountGrid component
+ */
+interface AccountGridProps {
+  /** Heading shown above the grid, if any */
+  title?: string;
+  /** The accounts to show, in order */
+  results: SearchResult[];
+  /** Whether the accounts can be reordered by dragging or with the keyboard */
+  reorderable: boolean;
+  /** Function to move an account to the position of another account */
+  onMove: (id: string, targetId: string) => void;
+  /** Function to render the card of an account */
+  renderCard: (result: SearchResult) => React.ReactNode;
+}
+
+/**
+ * Component that displays account cards in a grid.
+ * When reorderable, each card has a handle that can be dragged onto another card
+ * to take its place, or focused and moved with the arrow keys (Home and End move
+ * the card to the start or end of the grid).
+ * 
+ * @param props - The component props
+ * @returns The rendered grid
+ */
+export function AccountGrid({ title, results, reorderable, onMove, renderCard }: AccountGridProps) {
+  /** ID of the account whose handle is pressed, so that only the handle starts a drag */
+  const [armedId, setArmedId] = useState<string | null>(null);
+  /** ID of the account being dragged */
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  /** ID of the account the dragged account is over */
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  /** Handles of the cards, keyed by account ID */
+  const handleRefs = useRef<{ [id: string]: HTMLButtonElement | null }>({});
+  /** ID of the account whose handle gets the focus back after it was moved with the keyboard */
+  const focusAfterMoveRef = useRef<string | null>(null);
+
+  /**
+   * Effect hook to keep the focus on a handle after its card was moved with the
+   * keyboard, since moving the card in the page can take the focus away.
+   */
+  useEffect(() => {
+    if (focusAfterMoveRef.current) {
+      handleRefs.current[focusAfterMoveRef.current]?.focus();
+      focusAfterMoveRef.current = null;
+    }
+  });
+
+  /**
+   * Ends a drag, whether or not the account was dropped on another one.
+   */
+  const endDrag = () => {
+    setArmedId(null);
+    setDraggedId(null);
+    setDropTargetId(null);
+  };
+
+  /**
+   * Handles an account being dropped on another account.
+   * 
+   * @param e - The drag event
+   * @param targetId - The ID of the account it was dropped on
+   */
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>, targetId: string) => {
+    e.preventDefault();
+    if (draggedId && draggedId !== targetId) {
+      onMove(draggedId, targetId);
+    }
+    endDrag();
+  };
+
+  /**
+   * Handles key presses on a card's handle.
+   * 
+   * @param e - The keyboard event
+   * @param index - Position of the card in the grid
+   */
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>, index: number) => {
+    const targetIndex =
+      e.key === 'ArrowUp' || e.key === 'ArrowLeft' ? index - 1
+      : e.key === 'ArrowDown' || e.key === 'ArrowRight' ? index + 1
+      : e.key === 'Home' ? 0
+      : e.key === 'End' ? results.length - 1
+      : null;
+    if (targetIndex === null) {
+      return;
+    }
+    e.preventDefault();
+    if (targetIndex >= 0 && targetIndex < results.length && targetIndex !== index) {
+      focusAfterMoveRef.current = results[index].config.id;
+      onMove(results[index].config.id, results[targetIndex].config.id);
+    }
+  };
+
+  return (
+    <section className="space-y-2">
+      {title && <h2 className="text-sm font-medium text-muted-foreground">{title}</h2>}
+      <div className="grid gap-4 grid-cols-1 md:grid-cols-2 lg:grid-cols-3">
+        {results.map((result, index) => {
+          const { config } = result;
+          return (
+            <div
+              key={config.id}
+              className={cn(
+                'relative rounded-lg',
+                draggedId === config.id && 'opacity-50',
+                dropTargetId === config.id && draggedId !== config.id && 'ring-2 ring-primary'
+              )}
+              draggable={reorderable && armedId === config.id}
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = 'move';
+                setDraggedId(config.id);
+              }}
+              onDragOver={(e) => {
+                if (draggedId) {
+                  e.preventDefault();
+                  setDropTargetId(config.id);
+                }
+              }}
+              onDrop={(e) => handleDrop(e, config.id)}
+              onDragEnd={endDrag}
+            >
+              {renderCard(result)}
+              {reorderable && (
+                <button
+                  type="button"
+                  ref={(element) => {
+                    handleRefs.current[config.id] = element;
+                  }}
+                  className="absolute right-1 top-1 cursor-grab rounded-sm p-1 text-muted-foreground hover:text-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                  aria-label={`Reorder ${config.accountName}`}
+                  title="Drag to reorder, or focus and use the arrow keys"
+                  onPointerDown={() => setArmedId(config.id)}
+                  onPointerUp={() => setArmedId(null)}
+                  onKeyDown={(e) => handleKeyDown(e, index)}
+                >
+                  <GripVertical className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
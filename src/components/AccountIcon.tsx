@@ -0,0 +1,55 @@
+'use client';
+
+import React from 'react';
+import type { OTPConfig } from '@/lib/otp-config';
+import { resolveBrandIcon, getContrastColor, getMonogramColor } from '@/lib/brand-icons';
+import { cn } from '@/lib/utils';
+
+/**
+ * Props for the AccountIcon component
+ */
+interface AccountIconProps {
+  /** The configuration to show the icon of */
+  config: Pick<OTPConfig, 'icon' | 'issuer' | 'accountName'>;
+  /** Extra classes for the icon tile, e.g. to change its size */
+  className?: string;
+}
+
+/**
+ * Component that displays the icon of an account as a tile in the brand's color.
+ * Accounts without a matching bundled brand icon get a monogram of the issuer
+ * (or account name) in a color derived from the name.
+ * 
+ * @param props - The component props
+ * @returns The rendered icon tile
+ */
+export function AccountIcon({ config, className }: AccountIconProps) {
+  /** The brand icon of the account, or undefined for a monogram */
+  const brand = resolveBrandIcon(config);
+  /** Name the monogram and its color are taken from */
+  const name = config.issuer || config.accountName;
+
+  if (brand) {
+    return (
+      <div
+        className={cn('flex h-9 w-9 shrink-0 items-center justify-center rounded-md', className)}
+        style={{ backgroundColor: `#${brand.color}` }}
+        title={brand.title}
+      >
+        <svg role="img" viewBox="0 0 24 24" className="h-5 w-5" fill={getContrastColor(brand.color)} aria-label={brand.title}>
+          <path d={brand.path} />
+        </svg>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={cn('flex h-9 w-9 shrink-0 items-center justify-center rounded-md text-sm font-semibold text-white', className)}
+      style={{ backgroundColor: getMonogramColor(name) }}
+      aria-hidden="true"
+    >
+      {name.trim().charAt(0).toUpperCase() || '?'}
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+'use client';
+
+import React from 'react';
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarFooter,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuBadge,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from '@/components/ui/sidebar';
+import { Button } from '@/components/ui/button';
+import { CopyCheck, Folder, Layers, Tag, Trash2 } from 'lucide-react';
+import { AccountFilter, LabelCount, NO_FILTER, isSameLabel } from '@/lib/tags';
+
+/**
+ * Props for the AccountSidebar component
+ */
+interface AccountSidebarProps {
+  /** Total number of accounts */
+  totalCount: number;
+  /** Folders that hold any account, with their account counts */
+  folders: LabelCount[];
+  /** Tags used by any account, with their account counts */
+  tags: LabelCount[];
+  /** The current filter */
+  filter: AccountFilter;
+  /** Function to change the filter */
+  onFilterChange: (filter: AccountFilter) => void;
+  /** Number of deleted accounts in the trash */
+  trashCount: number;
+  /** Function to open the trash */
+  onOpenTrash: () => void;
+  /** Number of accounts that duplicate another account */
+  duplicateCount: number;
+  /** Function to open the duplicate accounts */
+  onOpenDuplicates: () => void;
+}
+
+/**
+ * Component that displays the navigation sidebar for organizing accounts.
+ * Selecting a folder shows only the accounts in it; selecting tags shows only the
+ * accounts that have all of the selected tags. A folder and tags can be combined,
+ * e.g. the "prod" accounts in the "Work" folder. The trash, and the duplicate
+ * accounts if there are any, are opened from the footer.
+ * 
+ * @param props - The component props
+ * @returns The rendered sidebar component
+ */
+export function AccountSidebar({
+  totalCount,
+  folders,
+  tags,
+  filter,
+  onFilterChange,
+  trashCount,
+  onOpenTrash,
+  duplicateCount,
+  onOpenDuplicates
+}: AccountSidebarProps) {
+  /** Whether any folder or tag is selected */
+  const isFiltered = filter.folder !== null || filter.tags.length > 0;
+
+  /**
+   * Selects a folder, or shows all folders again if it is already selected.
+   * 
+   * @param folder - The folder to select
+   */
+  const toggleFolder = (folder: string) => {
+    const isSelected = filter.folder !== null && isSameLabel(filter.folder, folder);
+    onFilterChange({ ...filter, folder: isSelected ? null : folder });
+  };
+
+  /**
+   * Adds a tag to the selected tags, or removes it if it is already selected.
+   * 
+   * @param tag - The tag to toggle
+   */
+  const toggleTag = (tag: string) => {
+    const isSelected = filter.tags.some((selected) => isSameLabel(selected, tag));
+    onFilterChange({
+      ...filter,
+      tags: isSelected ? filter.tags.filter((selected) => !isSameLabel(selected, tag)) : [...filter.tags, tag],
+    });
+  };
+
+  return (
+    <Sidebar>
+      <SidebarHeader>
+        <div className="px-2 py-1 text-lg font-semibold">Accounts</div>
+      </SidebarHeader>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              <SidebarMenuItem>
+                <SidebarMenuButton isActive={!isFiltered} onClick={() => onFilterChange(NO_FILTER)}>
+                  <Layers />
+                  <span>All accounts</span>
+                </SidebarMenuButton>
+                <SidebarMenuBadge>{totalCount}</SidebarMenuBadge>
+              </SidebarMenuItem>
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+
+        <SidebarGroup>
+          <SidebarGroupLabel>Folders</SidebarGroupLabel>
+          <SidebarGroupContent>
+            {folders.length === 0 ? (
+              <p className="px-2 text-xs text-muted-foreground">Set a folder on an account to file it here.</p>
+            ) : (
+              <SidebarMenu>
+                {folders.map(({ name, count }) => (
+                  <SidebarMenuItem key={name}>
+                    <SidebarMenuButton
+                      isActive={filter.folder !== null && isSameLabel(filter.folder, name)}
+                      onClick={() => toggleFolder(name)}
+                    >
+                      <Folder />
+                      <span>{name}</span>
+                    </SidebarMenuButton>
+                    <SidebarMenuBadge>{count}</SidebarMenuBadge>
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            )}
+          </SidebarGroupContent>
+        </SidebarGroup>
+
+        <SidebarGroup>
+          <SidebarGroupLabel>Tags</SidebarGroupLabel>
+          <SidebarGroupContent>
+            {tags.length === 0 ? (
+              <p className="px-2 text-xs text-muted-foreground">Add tags to accounts to filter by them.</p>
+            ) : (
+              <SidebarMenu>
+                {tags.map(({ name, count }) => (
+                  <SidebarMenuItem key={name}>
+                    <SidebarMenuButton
+                      isActive={filter.tags.some((selected) => isSameLabel(selected, name))}
+                      onClick={() => toggleTag(name)}
+                    >
+                      <Tag />
+                      <span>{name}</span>
+                    </SidebarMenuButton>
+                    <SidebarMenuBadge>{count}</SidebarMenuBadge>
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            )}
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+      <SidebarFooter>
+        {isFiltered && (
+          <Button variant="outline" size="sm" onClick={() => onFilterChange(NO_FILTER)}>
+            Clear filters
+          </Button>
+        )}
+        <SidebarMenu>
+          {duplicateCount > 0 && (
+            <SidebarMenuItem>
+              <SidebarMenuButton onClick={onOpenDuplicates}>
+                <CopyCheck />
+                <span>Duplicates</span>
+              </SidebarMenuButton>
+              <SidebarMenuBadge>{duplicateCount}</SidebarMenuBadge>
+            </SidebarMenuItem>
+          )}
+          <SidebarMenuItem>
+            <SidebarMenuButton onClick={onOpenTrash}>
+              <Trash2 />
+              <span>Trash</span>
+            </SidebarMenuButton>
+            {trashCount > 0 && <SidebarMenuBadge>{trashCount}</SidebarMenuBadge>}
+          </SidebarMenuItem>
+        </SidebarMenu>
+      </SidebarFooter>
+    </Sidebar>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import {
   Dialog,
   DialogTrigger,
@@ -14,26 +14,24 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
-import { Camera, Image as ImageIcon } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Camera, Image as ImageIcon, Plus, Trash2, Eye, EyeOff } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { useToast } from '@/hooks/use-toast';
-
-/**
- * Interface representing an OTP configuration.
- * Contains all the information needed to generate and identify an OTP.
- */
-interface OTPConfig {
-  /** Unique identifier for the configuration */
-  id: string;
-  /** Name of the account associated with this OTP */
-  accountName: string;
-  /** Secret key used to generate the OTP */
-  secretKey: string;
-  /** Optional text to add before the OTP */
-  prefix: string;
-  /** Optional text to add after the OTP */
-  postfix: string;
-}
+import type { CustomField, OTPType } from '@/lib/otp-config';
+import { TokenTypeRegistry, TokenField, TokenSettings, TokenSettingValue } from '@/services/TokenTypeRegistry';
+import { normalizeSecret, MIN_RECOMMENDED_KEY_LENGTH, SecretEncoding } from '@/lib/secret';
+import { formatOtp, fromVariableList, TemplateVariable, DEFAULT_OTP_TEMPLATE } from '@/lib/template';
+import { BRAND_ICONS, NO_ICON, resolveBrandIcon } from '@/lib/brand-icons';
+import { CUSTOM_FIELD_TYPE_LABELS, DEFAULT_CUSTOM_FIELD_TYPE } from '@/lib/custom-fields';
+import { AccountIcon } from '@/components/AccountIcon';
+import { TagInput } from '@/components/TagInput';
 
 /**
  * Props for the AddEditDialog component
@@ -49,10 +47,42 @@ interface AddEditDialogProps {
   accountName: string;
   /** Function to update the account name */
   setAccountName: (value: string) => void;
+  /** Current issuer value */
+  issuer: string;
+  /** Function to update the issuer */
+  setIssuer: (value: string) => void;
+  /** Current manually chosen icon ID, 'none' for no icon, or '' to match the issuer */
+  icon: string;
+  /** Function to update the manually chosen icon */
+  setIcon: (value: string) => void;
+  /** Current folder value, or '' for no folder */
+  folder: string;
+  /** Function to update the folder */
+  setFolder: (value: string) => void;
+  /** Current tags */
+  tags: string[];
+  /** Function to update the tags */
+  setTags: (value: string[]) => void;
+  /** Folders used by any account, offered as suggestions */
+  knownFolders: string[];
+  /** Tags used by any account, offered as suggestions */
+  knownTags: string[];
   /** Current secret key value */
   secretKey: string;
   /** Function to update the secret key */
   setSecretKey: (value: string) => void;
+  /** Current encoding of the secret key value */
+  secretEncoding: SecretEncoding;
+  /** Function to update the encoding of the secret key */
+  setSecretEncoding: (value: SecretEncoding) => void;
+  /** Current OTP type value */
+  otpType: OTPType;
+  /** Function to update the OTP type */
+  setOtpType: (value: OTPType) => void;
+  /** Current token type settings, keyed by field key */
+  settings: TokenSettings;
+  /** Function to update a single token type setting */
+  setSetting: (key: string, value: TokenSettingValue) => void;
   /** Current prefix value */
   prefix: string;
   /** Function to update the prefix */
@@ -61,6 +91,22 @@ interface AddEditDialogProps {
   postfix: string;
   /** Function to update the postfix */
   setPostfix: (value: string) => void;
+  /** Current template of the final copied string */
+  template: string;
+  /** Function to update the template */
+  setTemplate: (value: string) => void;
+  /** Current template variables */
+  variables: TemplateVariable[];
+  /** Function to update the template variables */
+  setVariables: (value: TemplateVariable[]) => void;
+  /** Current notes */
+  notes: string;
+  /** Function to update the notes */
+  setNotes: (value: string) => void;
+  /** Current custom fields */
+  customFields: CustomField[];
+  /** Function to update the custom fields */
+  setCustomFields: (value: CustomField[]) => void;
   /** Function to save the configuration */
   onSave: () => void;
   /** Function to handle scanning a QR code */
@@ -77,10 +123,40 @@ interface AddEditDialogProps {
   canvasRef: React.RefObject<HTMLCanvasElement>;
 }
 
+/**
+ * Masks a sensitive value for display.
+ * 
+ * @param value - The value to mask
+ * @returns A bullet for every character of the value
+ */
+function maskValue(value: string): string {
+  return '\u2022'.repeat(value.length);
+}
+
+/** Value of the icon select for matching the icon to the issuer (Radix selects cannot use '') */
+const AUTOMATIC_ICON = 'auto';
+
+/** Input types of the custom field types, so browsers offer the right keyboard and autofill */
+const CUSTOM_FIELD_INPUT_TYPES: { [type in CustomField['type']]: string } = {
+  text: 'text',
+  secret: 'password',
+  email: 'email',
+  phone: 'tel',
+  url: 'url',
+};
+
+/** Code used to preview templates, cut to the configured number of digits */
+const SAMPLE_CODE = '1234567890';
+
 /**
  * Component that displays a dialog for adding or editing OTP configurations.
- * Includes fields for account name, secret key, prefix, and postfix.
+ * Includes fields for account name, issuer, icon, folder, tags, secret key and its encoding, token type, prefix, postfix,
+ * template variables, the template of the final copied string, notes and custom fields, plus the settings the selected
+ * token type declares (e.g. counter, algorithm, digits or PIN).
  * Also provides options for scanning QR codes or uploading QR code images.
+ * The secret key is checked as it is typed, showing its decoded key length or
+ * what is wrong with it (secrets of token types that use them as text, e.g. mOTP, are not checked),
+ * and the template is previewed with a sample code as it is typed.
  * 
  * @param props - The component props
  * @returns The rendered dialog component
@@ -91,12 +167,36 @@ export function AddEditDialog({
   selectedConfigId,
   accountName,
   setAccountName,
+  issuer,
+  setIssuer,
+  icon,
+  setIcon,
+  folder,
+  setFolder,
+  tags,
+  setTags,
+  knownFolders,
+  knownTags,
   secretKey,
   setSecretKey,
+  secretEncoding,
+  setSecretEncoding,
+  otpType,
+  setOtpType,
+  settings,
+  setSetting,
   prefix,
   setPrefix,
   postfix,
   setPostfix,
+  template,
+  setTemplate,
+  variables,
+  setVariables,
+  notes,
+  setNotes,
+  customFields,
+  setCustomFields,
   onSave,
   onScanQRCode,
   onImageUpload,
@@ -105,9 +205,157 @@ export function AddEditDialog({
   videoRef,
   canvasRef
 }: AddEditDialogProps) {
+  /** Definition of the selected token type, or undefined for a type that is no longer registered */
+  const definition = TokenTypeRegistry.find(otpType);
+  /** Icon the issuer or account name matches, shown next to the automatic option */
+  const matchedIcon = resolveBrandIcon({ issuer, accountName });
+  /** Whether the secret key is a binary key in one of the secret encodings */
+  const isKeySecret = definition?.secretFormat !== 'text';
+
+  /** Result of checking the secret key, or null when there is nothing to check */
+  const secretStatus = (() => {
+    if (!secretKey || !isKeySecret) {
+      return null;
+    }
+    try {
+      const { keyLength } = normalizeSecret(secretKey, secretEncoding);
+      const warning = keyLength < MIN_RECOMMENDED_KEY_LENGTH
+        ? `, shorter than the recommended ${MIN_RECOMMENDED_KEY_LENGTH} bytes`
+        : '';
+      return { isError: false, message: `Key length: ${keyLength} bytes (${keyLength * 8} bits)${warning}` };
+    } catch (error) {
+      return { isError: true, message: error instanceof Error ? error.message : 'Invalid secret key.' };
+    }
+  })();
+
+  /** Whether prefix, postfix, variable and secret custom field values are shown instead of masked */
+  const [showSensitive, setShowSensitive] = useState(false);
+
+  /**
+   * Effect hook to mask the sensitive values again whenever the dialog is opened.
+   */
+  useEffect(() => {
+    if (isOpen) {
+      setShowSensitive(false);
+    }
+  }, [isOpen]);
+
+  /** Result of rendering the template with a sample code, shown as a live preview */
+  const templatePreview = (() => {
+    const sampleCode = SAMPLE_CODE.substring(0, Number(settings.digits ?? 6));
+    const reveal = showSensitive ? (value: string) => value : maskValue;
+    try {
+      const previewVariables = fromVariableList(variables);
+      const preview = formatOtp(
+        {
+          accountName,
+          issuer,
+          prefix: reveal(prefix),
+          postfix: reveal(postfix),
+          template,
+          variables: previewVariables && Object.fromEntries(
+            Object.entries(previewVariables).map(([name, value]) => [name, reveal(value)])
+          ),
+        },
+        sampleCode
+      );
+      return { isError: false, message: `Preview: ${preview}` };
+    } catch (error) {
+      return { isError: true, message: error instanceof Error ? error.message : 'Invalid template.' };
+    }
+  })();
+
+  /**
+   * Updates one template variable.
+   * 
+   * @param index - Position of the variable in the list
+   * @param change - The name and/or value to set
+   */
+  const updateVariable = (index: number, change: Partial<TemplateVariable>) => {
+    setVariables(variables.map((variable, i) => (i === index ? { ...variable, ...change } : variable)));
+  };
+
+  /**
+   * Updates one custom field.
+   * 
+   * @param index - Position of the field in the list
+   * @param change - The name, value and/or type to set
+   */
+  const updateCustomField = (index: number, change: Partial<CustomField>) => {
+    setCustomFields(customFields.map((field, i) => (i === index ? { ...field, ...change } : field)));
+  };
+
+  /**
+   * Renders the input for a token type setting.
+   * Number inputs fall back to the field's default when cleared and are kept at or above its minimum.
+   * 
+   * @param field - The setting to render
+   * @returns The rendered input row
+   */
+  const renderField = (field: TokenField) => {
+    const value = settings[field.key] ?? field.defaultValue;
+    let input: React.ReactNode;
+    switch (field.kind) {
+      case 'select':
+        input = (
+          <Select
+            value={String(value)}
+            onValueChange={(selected) => {
+              const option = field.options?.find((o) => String(o.value) === selected);
+              setSetting(field.key, option ? option.value : selected);
+            }}
+          >
+            <SelectTrigger id={field.key} className="col-span-3">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {field.options?.map((option) => (
+                <SelectItem key={String(option.value)} value={String(option.value)}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+        break;
+      case 'number':
+        input = (
+          <Input
+            type="number"
+            id={field.key}
+            min={field.min}
+            value={value}
+            onChange={(e) => setSetting(field.key, e.target.value)}
+            className="col-span-3"
+          />
+        );
+        break;
+      default:
+        input = (
+          <Input
+            type={field.kind}
+            id={field.key}
+            autoComplete={field.kind === 'password' ? 'off' : undefined}
+            placeholder={field.placeholder}
+            value={value}
+            onChange={(e) => setSetting(field.key, e.target.value)}
+            className="col-span-3"
+          />
+        );
+    }
+    return (
+      <div key={field.key} className="grid grid-cols-4 items-center gap-4">
+        <Label htmlFor={field.key} className="text-right">
+          {field.label}
+        </Label>
+        {input}
+      </div>
+    );
+  };
+
   return (
     <Dialog open={isOpen} onOpenChange={onOpenChange}>
-      <DialogContent>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>{selectedConfigId ? 'Edit' : 'Add'} OTP Configuration</DialogTitle>
           <DialogDescription>
@@ -143,40 +391,288 @@ export function AddEditDialog({
               />
             </div>
             <div className="grid grid-cols-4 items-center gap-4">
-              <Label htmlFor="secretKey" className="text-right">
-                Secret Key
+              <Label htmlFor="issuer" className="text-right">
+                Issuer
               </Label>
-              <Textarea
-                id="secretKey"
-                value={secretKey}
-                onChange={(e) => setSecretKey(e.target.value)}
+              <Input
+                type="text"
+                id="issuer"
+                value={issuer}
+                onChange={(e) => setIssuer(e.target.value)}
                 className="col-span-3"
               />
             </div>
             <div className="grid grid-cols-4 items-center gap-4">
-              <Label htmlFor="prefix" className="text-right">
-                Prefix
+              <Label htmlFor="icon" className="text-right">
+                Icon
+              </Label>
+              <div className="col-span-3 flex items-center space-x-2">
+                <AccountIcon config={{ icon, issuer, accountName }} />
+                <Select value={icon || AUTOMATIC_ICON} onValueChange={(value) => setIcon(value === AUTOMATIC_ICON ? '' : value)}>
+                  <SelectTrigger id="icon">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={AUTOMATIC_ICON}>
+                      Automatic{matchedIcon ? ` (${matchedIcon.title})` : ''}
+                    </SelectItem>
+                    <SelectItem value={NO_ICON}>None (initial)</SelectItem>
+                    {BRAND_ICONS.map((brand) => (
+                      <SelectItem key={brand.id} value={brand.id}>
+                        {brand.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="folder" className="text-right">
+                Folder
               </Label>
               <Input
                 type="text"
-                id="prefix"
-                value={prefix}
-                onChange={(e) => setPrefix(e.target.value)}
+                id="folder"
+                placeholder="None"
+                value={folder}
+                onChange={(e) => setFolder(e.target.value)}
+                list="folder-suggestions"
                 className="col-span-3"
               />
+              <datalist id="folder-suggestions">
+                {knownFolders.map((knownFolder) => (
+                  <option key={knownFolder} value={knownFolder} />
+                ))}
+              </datalist>
+            </div>
+            <div className="grid grid-cols-4 items-start gap-4">
+              <Label htmlFor="tags" className="text-right pt-3">
+                Tags
+              </Label>
+              <div className="col-span-3">
+                <TagInput id="tags" tags={tags} onChange={setTags} suggestions={knownTags} />
+              </div>
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="secretKey" className="text-right">
+                Secret Key
+              </Label>
+              <div className="col-span-3 space-y-1">
+                <Textarea
+                  id="secretKey"
+                  value={secretKey}
+                  onChange={(e) => setSecretKey(e.target.value)}
+                />
+                {secretStatus && (
+                  <p className={secretStatus.isError ? 'text-xs text-destructive' : 'text-xs text-muted-foreground'}>
+                    {secretStatus.message}
+                  </p>
+                )}
+              </div>
+            </div>
+            {isKeySecret && (
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="secretEncoding" className="text-right">
+                  Encoding
+                </Label>
+                <Select value={secretEncoding} onValueChange={(value) => setSecretEncoding(value as SecretEncoding)}>
+                  <SelectTrigger id="secretEncoding" className="col-span-3">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="base32">Base32</SelectItem>
+                    <SelectItem value="hex">Hex</SelectItem>
+                    <SelectItem value="base64">Base64</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="otpType" className="text-right">
+                Type
+              </Label>
+              <Select value={otpType} onValueChange={setOtpType}>
+                <SelectTrigger id="otpType" className="col-span-3">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TokenTypeRegistry.list().map((type) => (
+                    <SelectItem key={type.id} value={type.id}>
+                      {type.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {definition?.fields.map(renderField)}
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="prefix" className="text-right">
+                Prefix
+              </Label>
+              <div className="col-span-3 flex space-x-2">
+                <Input
+                  type={showSensitive ? 'text' : 'password'}
+                  id="prefix"
+                  value={prefix}
+                  onChange={(e) => setPrefix(e.target.value)}
+                  autoComplete="off"
+                />
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => setShowSensitive(!showSensitive)}
+                  title={showSensitive ? 'Hide prefix, postfix, variable and secret field values' : 'Show prefix, postfix, variable and secret field values'}
+                >
+                  {showSensitive ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                </Button>
+              </div>
             </div>
             <div className="grid grid-cols-4 items-center gap-4">
               <Label htmlFor="postfix" className="text-right">
                 Postfix
               </Label>
               <Input
-                type="text"
+                type={showSensitive ? 'text' : 'password'}
                 id="postfix"
                 value={postfix}
                 onChange={(e) => setPostfix(e.target.value)}
+                autoComplete="off"
                 className="col-span-3"
               />
             </div>
+            <div className="grid grid-cols-4 items-start gap-4">
+              <Label className="text-right pt-3">
+                Variables
+              </Label>
+              <div className="col-span-3 space-y-2">
+                {variables.map((variable, index) => (
+                  <div key={index} className="flex space-x-2">
+                    <Input
+                      type="text"
+                      placeholder="Name"
+                      aria-label="Variable name"
+                      value={variable.name}
+                      onChange={(e) => updateVariable(index, { name: e.target.value })}
+                    />
+                    <Input
+                      type={showSensitive ? 'text' : 'password'}
+                      autoComplete="off"
+                      placeholder="Value"
+                      aria-label="Variable value"
+                      value={variable.value}
+                      onChange={(e) => updateVariable(index, { value: e.target.value })}
+                    />
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => setVariables(variables.filter((_, i) => i !== index))}
+                      title="Remove variable"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button variant="secondary" size="sm" onClick={() => setVariables([...variables, { name: '', value: '' }])}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Variable
+                </Button>
+              </div>
+            </div>
+            <div className="grid grid-cols-4 items-start gap-4">
+              <Label htmlFor="template" className="text-right pt-3">
+                Format
+              </Label>
+              <div className="col-span-3 space-y-1">
+                <Input
+                  type="text"
+                  id="template"
+                  placeholder={DEFAULT_OTP_TEMPLATE}
+                  value={template}
+                  onChange={(e) => setTemplate(e.target.value)}
+                  className="font-mono"
+                />
+                <p className={templatePreview.isError ? 'text-xs text-destructive' : 'text-xs text-muted-foreground'}>
+                  {templatePreview.message}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Use {'{code}'}, {'{account}'}, {'{issuer}'}, {'{prefix}'}, {'{postfix}'} or a variable. {'{code:3}'} groups
+                  the code in threes with dashes, {'{code:4: }'} in fours with spaces.
+                </p>
+              </div>
+            </div>
+            <div className="grid grid-cols-4 items-start gap-4">
+              <Label htmlFor="notes" className="text-right pt-3">
+                Notes
+              </Label>
+              <Textarea
+                id="notes"
+                placeholder="Recovery email, owner, enrolled backup phone..."
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                className="col-span-3"
+              />
+            </div>
+            <div className="grid grid-cols-4 items-start gap-4">
+              <Label className="text-right pt-3">
+                Custom Fields
+              </Label>
+              <div className="col-span-3 space-y-2">
+                {customFields.map((field, index) => (
+                  <div key={index} className="flex space-x-2">
+                    <Input
+                      type="text"
+                      placeholder="Name"
+                      aria-label="Field name"
+                      value={field.name}
+                      onChange={(e) => updateCustomField(index, { name: e.target.value })}
+                    />
+                    <Select
+                      value={field.type}
+                      onValueChange={(type) => updateCustomField(index, { type: type as CustomField['type'] })}
+                    >
+                      <SelectTrigger className="w-28 shrink-0" aria-label="Field type">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(CUSTOM_FIELD_TYPE_LABELS).map(([type, label]) => (
+                          <SelectItem key={type} value={type}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type={field.type === 'secret' && showSensitive ? 'text' : CUSTOM_FIELD_INPUT_TYPES[field.type]}
+                      autoComplete="off"
+                      placeholder="Value"
+                      aria-label="Field value"
+                      value={field.value}
+                      onChange={(e) => updateCustomField(index, { value: e.target.value })}
+                    />
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      className="shrink-0"
+                      onClick={() => setCustomFields(customFields.filter((_, i) => i !== index))}
+                      title="Remove field"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => setCustomFields([...customFields, { name: '', value: '', type: DEFAULT_CUSTOM_FIELD_TYPE }])}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Field
+                </Button>
+                <p className="text-xs text-muted-foreground">
+                  Notes and custom fields are stored encrypted. Secret values are masked like the prefix.
+                </p>
+              </div>
+            </div>
 
             <div className="flex items-center justify-between">
               <Button
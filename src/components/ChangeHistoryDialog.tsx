@@ -0,0 +1,176 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Eye, EyeOff, RotateCcw } from 'lucide-react';
+import type { OTPConfig } from '@/lib/otp-config';
+import { ConfigChange, ConfigRevision, REVISION_ACTION_LABELS, diffConfigs } from '@/lib/revisions';
+import { cn } from '@/lib/utils';
+
+/**
+ * Props for the ChangeHistoryDialog component
+ */
+interface ChangeHistoryDialogProps {
+  /** The configuration whose changes are shown, or null when the dialog is closed */
+  config: OTPConfig | null;
+  /** The configuration's revisions, newest first */
+  revisions: ConfigRevision[];
+  /** Function to call when the dialog open state changes */
+  onOpenChange: (open: boolean) => void;
+  /** Function to revert the configuration to a revision */
+  onRevert: (id: string, revisionId: string) => void;
+}
+
+/**
+ * Component that displays the revision history of a configuration.
+ * Lists when, on which device and how the configuration was changed, shows what
+ * each change did (old and new values side by side, with secret values masked
+ * until revealed) and reverts the configuration to the version before any change.
+ * 
+ * @param props - The component props
+ * @returns The rendered dialog component
+ */
+export function ChangeHistoryDialog({ config, revisions, onOpenChange, onRevert }: ChangeHistoryDialogProps) {
+  /** ID of the revision whose changes are shown */
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  /** Whether secret values are shown instead of masked */
+  const [showSecrets, setShowSecrets] = useState(false);
+
+  /**
+   * Effect hook to show the latest change, with secret values masked, whenever
+   * another configuration is shown.
+   */
+  useEffect(() => {
+    setSelectedId(null);
+    setShowSecrets(false);
+  }, [config?.id]);
+
+  /** Position of the shown revision (the latest one unless another is selected) */
+  const selectedIndex = Math.max(0, revisions.findIndex((revision) => revision.id === selectedId));
+  /** The shown revision */
+  const selected = revisions[selectedIndex];
+
+  /**
+   * Lists the changes a revision was replaced by: the differences to the next
+   * newer revision, or to the current version for the latest revision.
+   * 
+   * @param index - Position of the revision
+   * @returns The changed properties
+   */
+  const getChanges = (index: number): ConfigChange[] => {
+    const after = index === 0 ? config : revisions[index - 1].config;
+    return after ? diffConfigs(revisions[index].config, after) : [];
+  };
+
+  /**
+   * Formats a value for the diff table.
+   * 
+   * @param change - The changed property
+   * @param value - The old or new value
+   * @returns The rendered value
+   */
+  const renderValue = (change: ConfigChange, value: string) => {
+    if (!value) {
+      return <span className="text-muted-foreground">(none)</span>;
+    }
+    if (change.sensitive && !showSecrets) {
+      return <span className="font-mono">{'•'.repeat(Math.min(value.length, 12))}</span>;
+    }
+    return <span className="whitespace-pre-wrap break-all font-mono">{value}</span>;
+  };
+
+  /** Changes of the shown revision */
+  const changes = selected ? getChanges(selectedIndex) : [];
+
+  return (
+    <Dialog open={config !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] max-w-3xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Changes to {config?.accountName}</DialogTitle>
+          <DialogDescription>
+            Every edit, revert, import and merge keeps the previous version, encrypted with your password.
+            Revert to undo a mistaken change, such as a wrong QR code scanned over a working account.
+          </DialogDescription>
+        </DialogHeader>
+
+        {revisions.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">This account has not been changed yet.</p>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-[14rem_1fr]">
+            <ul className="max-h-96 space-y-1 overflow-y-auto">
+              {revisions.map((revision, index) => (
+                <li key={revision.id}>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedId(revision.id)}
+                    className={cn(
+                      'w-full rounded-md px-2 py-1 text-left text-sm hover:bg-muted',
+                      index === selectedIndex && 'bg-muted'
+                    )}
+                  >
+                    <div className="font-medium">{new Date(revision.changedAt).toLocaleString()}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {REVISION_ACTION_LABELS[revision.action]} on {revision.device}
+                    </div>
+                    <div className="truncate text-xs text-muted-foreground">
+                      {getChanges(index).map((change) => change.label).join(', ') || 'No changes'}
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            {selected && (
+              <div className="min-w-0 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="text-sm">
+                    {REVISION_ACTION_LABELS[selected.action]} {new Date(selected.changedAt).toLocaleString()} on{' '}
+                    {selected.device}
+                  </div>
+                  {changes.some((change) => change.sensitive) && (
+                    <Button variant="ghost" size="sm" onClick={() => setShowSecrets(!showSecrets)}>
+                      {showSecrets ? <EyeOff className="mr-2 h-4 w-4" /> : <Eye className="mr-2 h-4 w-4" />}
+                      {showSecrets ? 'Hide' : 'Show'} secrets
+                    </Button>
+                  )}
+                </div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Field</TableHead>
+                      <TableHead>Before</TableHead>
+                      <TableHead>After</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {changes.map((change) => (
+                      <TableRow key={change.key}>
+                        <TableCell className="font-medium">{change.label}</TableCell>
+                        <TableCell className="bg-red-50 dark:bg-red-950">{renderValue(change, change.before)}</TableCell>
+                        <TableCell className="bg-green-50 dark:bg-green-950">{renderValue(change, change.after)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                <div className="flex justify-end">
+                  <Button variant="outline" onClick={() => config && onRevert(config.id, selected.id)}>
+                    <RotateCcw className="mr-2 h-4 w-4" />
+                    Revert to Before This Change
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,86 @@
+'use client';
+
+import React from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { AccountIcon } from '@/components/AccountIcon';
+import { DuplicateWarning, DUPLICATE_REASON_LABELS } from '@/lib/duplicates';
+
+/**
+ * Props for the DuplicateWarningDialog component
+ */
+interface DuplicateWarningDialogProps {
+  /** The new configurations and the configurations they duplicate, or null when the dialog is closed */
+  duplicates: DuplicateWarning[] | null;
+  /** Whether the new configurations are being added by hand or imported */
+  action: 'add' | 'import';
+  /** Function to call when the dialog open state changes */
+  onOpenChange: (open: boolean) => void;
+  /** Function to add or import the new configurations anyway */
+  onConfirm: () => void;
+}
+
+/**
+ * Component that warns before adding or importing configurations that duplicate
+ * existing ones, e.g. after scanning the same QR code twice or importing the same
+ * file again, or before an import replaces existing configurations. Lists each new
+ * configuration with the configurations it duplicates or replaces and why; nothing
+ * is added unless the user confirms.
+ * 
+ * @param props - The component props
+ * @returns The rendered dialog component
+ */
+export function DuplicateWarningDialog({ duplicates, action, onOpenChange, onConfirm }: DuplicateWarningDialogProps) {
+  const replaces = duplicates?.some(({ matches }) => matches.some((match) => match.reasons.includes('id')));
+
+  return (
+    <AlertDialog open={duplicates !== null} onOpenChange={onOpenChange}>
+      <AlertDialogContent className="max-h-[90vh] overflow-y-auto">
+        <AlertDialogHeader>
+          <AlertDialogTitle>
+            {action === 'add'
+              ? 'Add a duplicate account?'
+              : duplicates?.length === 1
+                ? 'Import a duplicate account?'
+                : `Import ${duplicates?.length} duplicate accounts?`}
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {action === 'add'
+              ? 'This account looks like one you already have.'
+              : 'These accounts from the file look like accounts you already have, or like each other.'}{' '}
+            {replaces &&
+              'Accounts replaced by the import are moved to the trash, and keep the PINs, notes and other details the file lacks. '}
+            If you go ahead, you can merge duplicates later under Duplicates in the sidebar.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <ul className="divide-y rounded-md border">
+          {duplicates?.map(({ config, matches }, index) => (
+            <li key={index} className="flex items-start gap-3 p-2">
+              <AccountIcon config={config} />
+              <div className="min-w-0 flex-1">
+                <div className="truncate text-sm font-medium">{config.accountName}</div>
+                {matches.map((match) => (
+                  <div key={match.config.id} className="text-xs text-muted-foreground">
+                    Like {match.config.accountName}: {match.reasons.map((reason) => DUPLICATE_REASON_LABELS[reason]).join(', ')}
+                  </div>
+                ))}
+              </div>
+            </li>
+          ))}
+        </ul>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={onConfirm}>{action === 'add' ? 'Add Anyway' : 'Import Anyway'}</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
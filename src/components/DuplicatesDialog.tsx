@@ -0,0 +1,162 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Merge } from 'lucide-react';
+import { AccountIcon } from '@/components/AccountIcon';
+import type { OTPConfig } from '@/lib/otp-config';
+import { DuplicateGroup, DUPLICATE_REASON_LABELS } from '@/lib/duplicates';
+
+/**
+ * Props for the DuplicatesDialog component
+ */
+interface DuplicatesDialogProps {
+  /** Whether the dialog is open */
+  isOpen: boolean;
+  /** Function to call when the dialog open state changes */
+  onOpenChange: (open: boolean) => void;
+  /** The sets of duplicate configurations */
+  groups: DuplicateGroup[];
+  /** Function to merge configurations into the one that is kept */
+  onMerge: (canonicalId: string, duplicateIds: string[]) => void;
+}
+
+/**
+ * Component that displays the sets of duplicate configurations and merges them.
+ * For each set the user picks the configuration to keep (the first one unless
+ * another is picked) and which of the others to merge into it; the merged ones
+ * are moved to the trash. Configurations whose secret key differs from the kept
+ * one are flagged, since only the kept secret key stays in use.
+ * 
+ * @param props - The component props
+ * @returns The rendered dialog component
+ */
+export function DuplicatesDialog({ isOpen, onOpenChange, groups, onMerge }: DuplicatesDialogProps) {
+  /** ID of the configuration to keep of each set, by the ID of the set's first configuration */
+  const [keptIds, setKeptIds] = useState<{ [groupId: string]: string }>({});
+  /** IDs of the configurations left out of their set's merge */
+  const [skippedIds, setSkippedIds] = useState<string[]>([]);
+
+  /**
+   * Includes a configuration in its set's merge, or leaves it out.
+   * 
+   * @param id - The ID of the configuration
+   * @param included - Whether to merge it
+   */
+  const setIncluded = (id: string, included: boolean) => {
+    setSkippedIds((prev) => (included ? prev.filter((skipped) => skipped !== id) : [...prev, id]));
+  };
+
+  /**
+   * Describes a configuration for telling duplicates apart.
+   * 
+   * @param config - The configuration
+   * @returns The issuer, folder and last use, separated by dots
+   */
+  const describeConfig = (config: OTPConfig) =>
+    [
+      config.issuer,
+      config.folder && `in ${config.folder}`,
+      config.lastUsedAt ? `used ${new Date(config.lastUsedAt).toLocaleDateString()}` : 'never used',
+    ]
+      .filter(Boolean)
+      .join(' · ');
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] max-w-2xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Duplicates</DialogTitle>
+          <DialogDescription>
+            These accounts share a secret key, or an issuer and account name. Merging keeps one of them with the tags,
+            notes and custom fields of all, and moves the others to the trash.
+          </DialogDescription>
+        </DialogHeader>
+
+        {groups.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">No duplicate accounts were found.</p>
+        ) : (
+          <div className="space-y-4">
+            {groups.map((group) => {
+              const groupId = group.configs[0].id;
+              const kept = group.configs.find((config) => config.id === keptIds[groupId]) ?? group.configs[0];
+              const merged = group.configs.filter(
+                (config) => config.id !== kept.id && !skippedIds.includes(config.id)
+              );
+              return (
+                <div key={groupId} className="space-y-2 rounded-md border p-3">
+                  <div className="flex flex-wrap gap-1">
+                    {group.reasons.map((reason) => (
+                      <Badge key={reason} variant="secondary">
+                        {DUPLICATE_REASON_LABELS[reason]}
+                      </Badge>
+                    ))}
+                  </div>
+                  <RadioGroup
+                    value={kept.id}
+                    onValueChange={(id) => setKeptIds((prev) => ({ ...prev, [groupId]: id }))}
+                  >
+                    {group.configs.map((config) => (
+                      <div key={config.id} className="flex items-center gap-3">
+                        <RadioGroupItem value={config.id} id={`keep-${config.id}`} aria-label={`Keep ${config.accountName}`} />
+                        <AccountIcon config={config} />
+                        <Label htmlFor={`keep-${config.id}`} className="min-w-0 flex-1 font-normal">
+                          <div className="truncate font-medium">{config.accountName}</div>
+                          <div className="truncate text-xs text-muted-foreground">
+                            {describeConfig(config)}
+                            {config.id !== kept.id && config.secretKey !== kept.secretKey && (
+                              <span className="text-destructive"> · different secret key</span>
+                            )}
+                          </div>
+                        </Label>
+                        {config.id === kept.id ? (
+                          <span className="text-xs text-muted-foreground">Kept</span>
+                        ) : (
+                          <div className="flex items-center gap-2">
+                            <Checkbox
+                              id={`merge-${config.id}`}
+                              checked={!skippedIds.includes(config.id)}
+                              onCheckedChange={(checked) => setIncluded(config.id, checked === true)}
+                            />
+                            <Label htmlFor={`merge-${config.id}`} className="text-xs">Merge</Label>
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </RadioGroup>
+                  {merged.some((config) => config.secretKey !== kept.secretKey) && (
+                    <p className="text-xs text-destructive">
+                      Some of the merged accounts have a different secret key. Only the secret key of the kept account
+                      stays in use; keep the one that currently works for signing in.
+                    </p>
+                  )}
+                  <div className="flex justify-end">
+                    <Button
+                      size="sm"
+                      disabled={merged.length === 0}
+                      onClick={() => onMerge(kept.id, merged.map((config) => config.id))}
+                    >
+                      <Merge className="mr-2 h-4 w-4" />
+                      Merge {merged.length + 1} Accounts
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,49 @@
+'use client';
+
+import React from 'react';
+
+/**
+ * Props for the HighlightedText component
+ */
+interface HighlightedTextProps {
+  /** The text to display */
+  text: string;
+  /** Positions of the characters to highlight, e.g. where a search matched */
+  indices?: number[];
+}
+
+/**
+ * Component that displays text with some of its characters highlighted.
+ * Runs of adjacent highlighted characters are wrapped in a single mark element.
+ * 
+ * @param props - The component props
+ * @returns The rendered text
+ */
+export function HighlightedText({ text, indices }: HighlightedTextProps) {
+  if (!indices || indices.length === 0) {
+    return <>{text}</>;
+  }
+
+  const highlighted = new Set(indices);
+  const parts: React.ReactNode[] = [];
+  let start = 0;
+  while (start < text.length) {
+    const isHighlighted = highlighted.has(start);
+    let end = start + 1;
+    while (end < text.length && highlighted.has(end) === isHighlighted) {
+      end++;
+    }
+    const part = text.substring(start, end);
+    parts.push(
+      isHighlighted ? (
+        <mark key={start} className="rounded-sm bg-yellow-200 text-inherit dark:bg-yellow-800">
+          {part}
+        </mark>
+      ) : (
+        part
+      )
+    );
+    start = end;
+  }
+  return <>{parts}</>;
+}
@@ -0,0 +1,287 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { List, Search } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { OTPConfig } from '@/lib/otp-config';
+import { OTPService, TOTPResult } from '@/services/OTPService';
+import { TokenTypeRegistry } from '@/services/TokenTypeRegistry';
+import { LoggingService } from '@/services/LoggingService';
+import { cn } from '@/lib/utils';
+
+/**
+ * Props for the HistoryDialog component
+ */
+interface HistoryDialogProps {
+  /** The time-based configuration to look up codes for, or null when the dialog is closed */
+  config: OTPConfig | null;
+  /** Function to call when the dialog open state changes */
+  onOpenChange: (open: boolean) => void;
+}
+
+/** Number of time steps listed before and after a single moment */
+const LIST_CONTEXT_STEPS = 2;
+
+/** Number of time steps searched before and after a single moment */
+const SEARCH_CONTEXT_STEPS = 10000;
+
+/**
+ * Parses a moment as found in server logs.
+ * Accepts Unix timestamps in seconds (up to 10 digits) or milliseconds, and
+ * ISO 8601 dates; dates without a time zone are taken as local time.
+ * 
+ * @param input - The moment as typed
+ * @returns The moment in milliseconds since the epoch, or NaN if it cannot be parsed
+ */
+function parseTimestamp(input: string): number {
+  const trimmed = input.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return trimmed.length <= 10 ? parseInt(trimmed, 10) * 1000 : parseInt(trimmed, 10);
+  }
+  return Date.parse(trimmed);
+}
+
+/**
+ * Component that displays a debugging dialog listing the codes a time-based configuration
+ * produced at a moment or over a time range, and searching which time step produced
+ * a given code. Times are the real (server) time; the configuration's own time
+ * offset is applied the same way as when codes are shown.
+ * 
+ * @param props - The component props
+ * @returns The rendered dialog component
+ */
+export function HistoryDialog({ config, onOpenChange }: HistoryDialogProps) {
+  /** Start of the time range, or the single moment to look up */
+  const [from, setFrom] = useState('');
+  /** Optional end of the time range */
+  const [to, setTo] = useState('');
+  /** Code to search for */
+  const [token, setToken] = useState('');
+  /** Codes listed for the time range */
+  const [codes, setCodes] = useState<TOTPResult[] | null>(null);
+  /** Time steps found to produce the searched code */
+  const [matches, setMatches] = useState<TOTPResult[] | null>(null);
+  /** The moment looked up, used to highlight the step that contains it */
+  const [moment, setMoment] = useState<number | null>(null);
+  /** Hook for displaying toast notifications */
+  const { toast } = useToast();
+
+  /** The configuration's own time offset in milliseconds */
+  const offsetMs = (config?.timeOffset ?? 0) * 1000;
+
+  /**
+   * Gets the RFC 6238 parameters of the configuration from its token type.
+   * 
+   * @returns The secret and generation settings
+   * @throws Error if the configuration's token type has no RFC 6238 parameters
+   */
+  const getTOTPParams = () => {
+    const definition = TokenTypeRegistry.get(config?.type);
+    if (!config || !definition.toTOTPParams) {
+      throw new Error(`Codes of ${definition.label} configurations cannot be looked up.`);
+    }
+    return definition.toTOTPParams(config);
+  };
+
+  /**
+   * Effect hook to reset the lookup whenever a different configuration is opened.
+   */
+  useEffect(() => {
+    setFrom(new Date().toISOString());
+    setTo('');
+    setToken('');
+    setCodes(null);
+    setMatches(null);
+    setMoment(null);
+  }, [config?.id]);
+
+  /**
+   * Parses the entered time range. A single moment is widened by the given number
+   * of time steps on either side.
+   * 
+   * @param contextSteps - Number of time steps to add around a single moment
+   * @param period - Time step of the configuration in seconds
+   * @returns The range in the configuration's time, and the single moment if only one was entered
+   * @throws Error if a time cannot be parsed
+   */
+  const getRange = (contextSteps: number, period: number) => {
+    const start = parseTimestamp(from);
+    const end = to.trim() ? parseTimestamp(to) : start;
+    if (Number.isNaN(start) || Number.isNaN(end)) {
+      throw new Error('Enter times as ISO 8601 dates or Unix timestamps.');
+    }
+    const isMoment = !to.trim();
+    const margin = isMoment ? contextSteps * period * 1000 : 0;
+    return {
+      range: { from: start - margin + offsetMs, to: end + margin + offsetMs },
+      moment: isMoment ? start : null,
+    };
+  };
+
+  /**
+   * Runs a lookup and reports failures with a toast notification.
+   * 
+   * @param lookup - The lookup to run
+   */
+  const runLookup = async (lookup: () => Promise<void>) => {
+    try {
+      await lookup();
+    } catch (error) {
+      LoggingService.error('Error looking up codes:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to look up codes.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  /**
+   * Lists the codes for the entered moment or time range.
+   */
+  const handleList = () => runLookup(async () => {
+    if (!config) {
+      return;
+    }
+    const params = getTOTPParams();
+    const { range, moment: lookedUpMoment } = getRange(LIST_CONTEXT_STEPS, params.period ?? 30);
+    setCodes(await OTPService.listTOTPCodes({ ...params, ...range }));
+    setMoment(lookedUpMoment);
+  });
+
+  /**
+   * Searches the entered moment or time range for the time steps that produce the entered code.
+   */
+  const handleFind = () => runLookup(async () => {
+    if (!config || !token) {
+      return;
+    }
+    const params = getTOTPParams();
+    const { range } = getRange(SEARCH_CONTEXT_STEPS, params.period ?? 30);
+    setMatches(await OTPService.findTOTPCode({ ...params, ...range, token: token.trim() }));
+  });
+
+  /**
+   * Renders a table of codes with their time steps and validity windows.
+   * 
+   * @param results - The codes to show
+   * @returns The rendered table
+   */
+  const renderCodes = (results: TOTPResult[]) => (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Step</TableHead>
+          <TableHead>Valid from (UTC)</TableHead>
+          <TableHead>Valid until (UTC)</TableHead>
+          <TableHead>Code</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {results.map((result) => {
+          const validFrom = result.validFrom - offsetMs;
+          const validUntil = result.validUntil - offsetMs;
+          const containsMoment = moment !== null && moment >= validFrom && moment < validUntil;
+          return (
+            <TableRow key={result.step} className={cn(containsMoment && 'bg-muted font-bold')}>
+              <TableCell>{result.step}</TableCell>
+              <TableCell>{new Date(validFrom).toISOString()}</TableCell>
+              <TableCell>{new Date(validUntil).toISOString()}</TableCell>
+              <TableCell className="font-mono">{result.code}</TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+
+  return (
+    <Dialog open={config !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Code History</DialogTitle>
+          <DialogDescription>
+            Look up the codes {config?.accountName} produced at a moment or over a time range.
+            {offsetMs !== 0 && ` The account's time offset of ${config?.timeOffset} seconds is applied.`}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="historyFrom" className="text-right">
+              Time / From
+            </Label>
+            <Input
+              type="text"
+              id="historyFrom"
+              placeholder="2024-05-01T12:00:00Z or 1714564800"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className="col-span-3"
+            />
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="historyTo" className="text-right">
+              To (optional)
+            </Label>
+            <Input
+              type="text"
+              id="historyTo"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className="col-span-3"
+            />
+          </div>
+          <div className="flex justify-end">
+            <Button variant="secondary" onClick={handleList} disabled={!from}>
+              <List className="mr-2 h-4 w-4" />
+              List Codes
+            </Button>
+          </div>
+          {codes && (
+            <div className="max-h-64 overflow-y-auto">{renderCodes(codes)}</div>
+          )}
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="historyToken" className="text-right">
+              Find Code
+            </Label>
+            <div className="col-span-3 flex space-x-2">
+              <Input
+                type="text"
+                id="historyToken"
+                inputMode="numeric"
+                autoComplete="off"
+                value={token}
+                onChange={(e) => setToken(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleFind()}
+              />
+              <Button variant="secondary" onClick={handleFind} disabled={!from || !token}>
+                <Search className="mr-2 h-4 w-4" />
+                Find
+              </Button>
+            </div>
+          </div>
+          {matches && (
+            matches.length === 0 ? (
+              <div className="text-sm text-muted-foreground text-center">
+                No time step in the range produces this code.
+              </div>
+            ) : (
+              <div className="max-h-64 overflow-y-auto">{renderCodes(matches)}</div>
+            )
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
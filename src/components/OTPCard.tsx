@@ -1,28 +1,17 @@
 'use client';
 
-import React from 'react';
-import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import React, { useState } from 'react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Copy, RefreshCw, Edit, Trash2 } from 'lucide-react';
-import { useToast } from '@/hooks/use-toast';
-
-/**
- * Interface representing an OTP configuration.
- * Contains all the information needed to generate and identify an OTP.
- */
-interface OTPConfig {
-  /** Unique identifier for the configuration */
-  id: string;
-  /** Name of the account associated with this OTP */
-  accountName: string;
-  /** Secret key used to generate the OTP */
-  secretKey: string;
-  /** Optional text to add before the OTP */
-  prefix: string;
-  /** Optional text to add after the OTP */
-  postfix: string;
-}
+import { Badge } from '@/components/ui/badge';
+import { Copy, RefreshCw, Edit, Trash2, SkipForward, KeyRound, ShieldCheck, History, Pin, PinOff, NotebookText, FileClock } from 'lucide-react';
+import { AccountIcon } from '@/components/AccountIcon';
+import { HighlightedText } from '@/components/HighlightedText';
+import type { OTPConfig } from '@/lib/otp-config';
+import type { SearchHighlights } from '@/lib/search';
+import { TokenTypeRegistry } from '@/services/TokenTypeRegistry';
+import { cn } from '@/lib/utils';
 
 /**
  * Props for the OTPCard component
@@ -32,25 +21,49 @@ interface OTPCardProps {
   config: OTPConfig;
   /** Current OTP code for this configuration */
   otpCode: string;
+  /** Upcoming OTP code, shown when the current code is about to expire */
+  nextOtpCode?: string;
   /** Whether the OTP code is visible or masked */
   isOtpVisible: boolean;
-  /** Remaining time in seconds before the OTP code expires */
-  remainingTime: number;
+  /** Remaining time in seconds before the OTP code expires (undefined for codes that never expire) */
+  remainingTime?: number;
   /** Function to handle copying the OTP code to clipboard */
-  onCopy: (secret: string, prefix: string, postfix: string) => void;
+  onCopy: (config: OTPConfig) => void;
   /** Function to handle refreshing the OTP code */
-  onRefresh: (secret: string, prefix: string, postfix: string) => void;
+  onRefresh: (config: OTPConfig) => void;
+  /** Function to advance a counter-based configuration to its next code */
+  onNextCode: (id: string) => void;
+  /** Function to compute the response to a challenge */
+  onRespond: (config: OTPConfig, challenge: string) => Promise<string | null>;
+  /** Function to open the verifier for a time-based configuration */
+  onVerify: (config: OTPConfig) => void;
+  /** Function to open the code history for a time-based configuration */
+  onShowHistory: (config: OTPConfig) => void;
+  /** Function to open the notes and custom fields of the configuration */
+  onShowDetails: (config: OTPConfig) => void;
+  /** Function to open the revision history of the configuration; omitted while it has no revisions */
+  onShowChanges?: (config: OTPConfig) => void;
   /** Function to handle editing the OTP configuration */
   onEdit: (config: OTPConfig) => void;
-  /** Function to handle deleting the OTP configuration */
+  /** Function to handle moving the OTP configuration to the trash */
   onDelete: (id: string) => void;
+  /** Function to pin the configuration to the top of the grid, or unpin it */
+  onTogglePin: (id: string) => void;
   /** Function to toggle the visibility of the OTP code */
   onToggleVisibility: () => void;
+  /** Where the current search matched the account, to highlight in its name, issuer and tags */
+  highlights?: SearchHighlights;
 }
 
 /**
  * Component that displays a single OTP configuration as a card.
- * Shows the account name, OTP code, and provides buttons for various actions.
+ * Shows the account's icon, name, issuer and tags, the OTP code, and provides buttons for various actions,
+ * including pinning the account to the top of the grid and opening its notes, custom fields and change history.
+ * What is shown follows the configuration's token type: challenge-response types
+ * (e.g. OCRA) show a challenge input instead of a continuously generated code,
+ * counter-based types a next-code button, and types with RFC 6238 parameters
+ * the verify and history buttons. Time-based configurations also show the
+ * upcoming code, dimmed, when one is provided.
  * 
  * @param props - The component props
  * @returns The rendered OTP card component
@@ -58,78 +71,198 @@ interface OTPCardProps {
 export function OTPCard({
   config,
   otpCode,
+  nextOtpCode,
   isOtpVisible,
   remainingTime,
   onCopy,
   onRefresh,
+  onNextCode,
+  onRespond,
+  onVerify,
+  onShowHistory,
+  onShowDetails,
+  onShowChanges,
   onEdit,
   onDelete,
-  onToggleVisibility
+  onTogglePin,
+  onToggleVisibility,
+  highlights
 }: OTPCardProps) {
-  const { toast } = useToast();
+  /** Definition of the configuration's token type, or undefined for a type that is not registered */
+  const definition = TokenTypeRegistry.find(config.type);
+  /** Whether this card computes challenge-response codes */
+  const isChallenge = !!definition?.respond;
+  /** Whether this card shows a continuously generated code that can be copied */
+  const hasCode = !!definition?.generate;
+  /** Whether this card's codes can be verified and looked up */
+  const hasTOTPParams = !!definition?.toTOTPParams;
+  /** Short description shown under the code, e.g. the counter value */
+  const description = definition?.describe?.(config);
+  /** The challenge entered for a challenge-response configuration */
+  const [challenge, setChallenge] = useState('');
+  /** The most recent challenge response */
+  const [response, setResponse] = useState('');
 
   /**
-   * Handles the copy button click.
-   * Calls the onCopy function and shows a toast notification.
+   * Handles the respond button click for challenge-response configurations.
+   * Shows the computed response, or clears it if the challenge was rejected.
    */
-  const handleCopy = () => {
-    onCopy(config.secretKey, config.prefix, config.postfix);
-    toast({
-      title: 'OTP Copied',
-      description: 'OTP copied to clipboard.',
-    });
-  };
-
-  /**
-   * Handles the refresh button click.
-   * Calls the onRefresh function and shows a toast notification.
-   */
-  const handleRefresh = () => {
-    onRefresh(config.secretKey, config.prefix, config.postfix);
-    toast({
-      title: 'OTP Refreshed and Copied',
-      description: 'New OTP copied to clipboard.',
-    });
+  const handleRespond = async () => {
+    setResponse((await onRespond(config, challenge)) ?? '');
   };
 
   return (
     <Card>
-      <CardHeader>
-        <CardTitle>{config.accountName}</CardTitle>
+      <CardHeader className="flex flex-row items-center gap-3 space-y-0">
+        <AccountIcon config={config} />
+        <div className="min-w-0 space-y-1">
+          <CardTitle className="truncate">
+            <HighlightedText text={config.accountName} indices={highlights?.accountName} />
+          </CardTitle>
+          {config.issuer && (
+            <CardDescription className="truncate">
+              <HighlightedText text={config.issuer} indices={highlights?.issuer} />
+            </CardDescription>
+          )}
+        </div>
       </CardHeader>
       <CardContent className="flex flex-col space-y-2">
+        {config.tags && (
+          <div className="flex flex-wrap justify-center gap-1">
+            {config.tags.map((tag) => (
+              <Badge key={tag} variant="outline">
+                <HighlightedText text={tag} indices={highlights?.tags?.[tag]} />
+              </Badge>
+            ))}
+          </div>
+        )}
+        {!definition && (
+          <div className="text-sm text-destructive text-center">
+            Unknown token type "{config.type}".
+          </div>
+        )}
+        {isChallenge && (
+          <div className="flex space-x-2">
+            <Input
+              type="text"
+              placeholder="Challenge"
+              value={challenge}
+              onChange={(e) => setChallenge(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleRespond()}
+            />
+            <Button variant="outline" onClick={handleRespond} disabled={!challenge}>
+              <KeyRound className="mr-2 h-4 w-4" />
+              Respond
+            </Button>
+          </div>
+        )}
         <div className="text-lg font-bold text-center">
           <Input
             type={isOtpVisible ? 'text' : 'password'}
-            value={otpCode}
+            value={isChallenge ? response : otpCode}
             readOnly
-            className="text-lg font-bold text-center"
+            className={cn('text-lg font-bold text-center', definition?.codeClassName)}
           />
         </div>
+        {nextOtpCode && (
+          <div className="text-sm text-muted-foreground text-center opacity-70">
+            Next: <span className={cn(definition?.codeClassName)}>
+              {isOtpVisible ? nextOtpCode : '•'.repeat(nextOtpCode.length)}
+            </span>
+          </div>
+        )}
+        {definition?.badge && (
+          <div className="text-xs text-muted-foreground text-center">{definition.badge}</div>
+        )}
         <div className="text-center">
           <Button variant="ghost" size="sm" onClick={onToggleVisibility}>
             {isOtpVisible ? 'Hide' : 'Show'} OTP
           </Button>
         </div>
-        {remainingTime !== undefined && (
+        {description ? (
+          <div className="text-sm text-muted-foreground text-center">{description}</div>
+        ) : remainingTime !== undefined && (
           <div className="text-sm text-muted-foreground text-center">
             Expires in {remainingTime} seconds
           </div>
         )}
         <div className="flex justify-between">
+          {hasCode && (
+            <>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => onCopy(config)}
+              >
+                <Copy className="h-4 w-4" />
+              </Button>
+              {definition?.manualCounter ? (
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => onNextCode(config.id)}
+                  title="Next code"
+                >
+                  <SkipForward className="h-4 w-4" />
+                </Button>
+              ) : (
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => onRefresh(config)}
+                >
+                  <RefreshCw className="h-4 w-4" />
+                </Button>
+              )}
+            </>
+          )}
+          {hasTOTPParams && (
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => onVerify(config)}
+              title="Verify a code"
+            >
+              <ShieldCheck className="h-4 w-4" />
+            </Button>
+          )}
+          {hasTOTPParams && (
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => onShowHistory(config)}
+              title="Code history"
+            >
+              <History className="h-4 w-4" />
+            </Button>
+          )}
+          {(config.notes || config.customFields) && (
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => onShowDetails(config)}
+              title="Notes and custom fields"
+            >
+              <NotebookText className="h-4 w-4" />
+            </Button>
+          )}
+          {onShowChanges && (
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => onShowChanges(config)}
+              title="Change history"
+            >
+              <FileClock className="h-4 w-4" />
+            </Button>
+          )}
           <Button
-            variant="outline"
-            size="icon"
-            onClick={handleCopy}
-          >
-            <Copy className="h-4 w-4" />
-          </Button>
-          <Button
-            variant="outline"
+            variant={config.pinned ? 'default' : 'outline'}
             size="icon"
-            onClick={handleRefresh}
+            onClick={() => onTogglePin(config.id)}
+            title={config.pinned ? 'Unpin' : 'Pin to top'}
           >
-            <RefreshCw className="h-4 w-4" />
+            {config.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
           </Button>
           <Button
             variant="secondary"
@@ -142,6 +275,7 @@ export function OTPCard({
             variant="destructive"
             size="icon"
             onClick={() => onDelete(config.id)}
+            title="Move to trash"
           >
             <Trash2 className="h-4 w-4" />
           </Button>
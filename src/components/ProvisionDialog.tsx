@@ -0,0 +1,289 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import QRCode from 'qrcode';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Copy, RefreshCw, Save } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { OTPConfig } from '@/lib/otp-config';
+import { OTPService, HashAlgorithms } from '@/services/OTPService';
+import { LoggingService } from '@/services/LoggingService';
+import { buildOtpAuthUri, getOtpAuthLabelError } from '@/lib/utils';
+
+/**
+ * Props for the ProvisionDialog component
+ */
+interface ProvisionDialogProps {
+  /** Whether the dialog is open */
+  isOpen: boolean;
+  /** Function to call when the dialog open state changes */
+  onOpenChange: (open: boolean) => void;
+  /** Function to save the provisioned secret as a local account; closes the dialog once the account is added */
+  onSave: (config: Omit<OTPConfig, 'id'>) => void;
+}
+
+/** Secret lengths in bytes offered for new secrets (RFC 4226 requires at least 16, recommends 20) */
+const SECRET_LENGTHS = [16, 20, 32, 64];
+
+/**
+ * Component that displays a dialog for provisioning new TOTP secrets.
+ * Generates a random secret with the chosen settings, builds its otpauth:// URI
+ * and renders it as a QR code entirely in the browser, so the secret never
+ * leaves the device. The secret can optionally be saved as a local account.
+ * 
+ * @param props - The component props
+ * @returns The rendered dialog component
+ */
+export function ProvisionDialog({ isOpen, onOpenChange, onSave }: ProvisionDialogProps) {
+  /** Provider or service name the secret is issued by */
+  const [issuer, setIssuer] = useState('');
+  /** Name of the account the secret is issued to */
+  const [accountName, setAccountName] = useState('');
+  /** Length of the generated secret in bytes */
+  const [secretLength, setSecretLength] = useState(20);
+  /** The generated base32-encoded secret */
+  const [secret, setSecret] = useState('');
+  /** HMAC algorithm of the provisioned token */
+  const [algorithm, setAlgorithm] = useState<HashAlgorithms>('sha1');
+  /** Number of digits of the provisioned token */
+  const [digits, setDigits] = useState(6);
+  /** Time step in seconds of the provisioned token */
+  const [period, setPeriod] = useState(30);
+  /** The QR code for the URI as a data URL */
+  const [qrDataUrl, setQrDataUrl] = useState('');
+  /** Hook for displaying toast notifications */
+  const { toast } = useToast();
+
+  /** Why the issuer and account name cannot be written to a URI, or null if they can */
+  const labelError = accountName ? getOtpAuthLabelError({ issuer: issuer || null, account: accountName }) : null;
+  /** The otpauth:// URI for the current settings, or an empty string until a valid account name is entered */
+  const uri = secret && accountName && !labelError
+    ? buildOtpAuthUri({
+        type: 'totp',
+        label: { issuer: issuer || null, account: accountName },
+        parameters: { secret, issuer: issuer || undefined, algorithm: algorithm.toUpperCase(), digits, period },
+      })
+    : '';
+
+  /**
+   * Effect hook to generate a fresh secret whenever the dialog opens or the secret length changes.
+   */
+  useEffect(() => {
+    if (isOpen) {
+      setSecret(OTPService.generateSecret(secretLength));
+    }
+  }, [isOpen, secretLength]);
+
+  /**
+   * Effect hook to render the QR code locally whenever the URI changes.
+   * Results for a URI that changed while rendering are discarded.
+   */
+  useEffect(() => {
+    let isCancelled = false;
+    if (!uri) {
+      setQrDataUrl('');
+      return;
+    }
+    QRCode.toDataURL(uri, { errorCorrectionLevel: 'M', margin: 2, width: 240 })
+      .then((dataUrl) => {
+        if (!isCancelled) {
+          setQrDataUrl(dataUrl);
+        }
+      })
+      .catch((error) => LoggingService.error('Error rendering QR code:', error));
+    return () => {
+      isCancelled = true;
+    };
+  }, [uri]);
+
+  /**
+   * Copies a value to the clipboard and confirms it with a toast notification.
+   * 
+   * @param value - The value to copy
+   * @param what - Description of the value for the notification
+   */
+  const handleCopy = (value: string, what: string) => {
+    navigator.clipboard.writeText(value);
+    toast({
+      title: 'Copied',
+      description: `${what} copied to clipboard.`,
+    });
+  };
+
+  /**
+   * Saves the provisioned secret as a local TOTP account. The dialog stays open,
+   * with the same secret, until the account is added, so the secret is not lost if
+   * adding it is cancelled (e.g. when it turns out to duplicate an existing account).
+   */
+  const handleSave = () => {
+    onSave({
+      accountName,
+      issuer: issuer || undefined,
+      secretKey: secret,
+      type: 'totp',
+      algorithm,
+      digits,
+      period,
+      prefix: '',
+      postfix: '',
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Provision New Secret</DialogTitle>
+          <DialogDescription>
+            Generate a TOTP secret and enroll it by scanning the QR code. Nothing leaves this device.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="provisionIssuer" className="text-right">
+              Issuer
+            </Label>
+            <Input
+              type="text"
+              id="provisionIssuer"
+              value={issuer}
+              onChange={(e) => setIssuer(e.target.value)}
+              className="col-span-3"
+            />
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="provisionAccountName" className="text-right">
+              Account Name
+            </Label>
+            <Input
+              type="text"
+              id="provisionAccountName"
+              value={accountName}
+              onChange={(e) => setAccountName(e.target.value)}
+              className="col-span-3"
+            />
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="provisionSecret" className="text-right">
+              Secret
+            </Label>
+            <div className="col-span-3 flex space-x-2">
+              <Input type="text" id="provisionSecret" value={secret} readOnly className="font-mono" />
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setSecret(OTPService.generateSecret(secretLength))}
+                title="Generate another secret"
+              >
+                <RefreshCw className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="provisionSecretLength" className="text-right">
+              Secret Length
+            </Label>
+            <Select value={String(secretLength)} onValueChange={(value) => setSecretLength(parseInt(value, 10))}>
+              <SelectTrigger id="provisionSecretLength" className="col-span-3">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SECRET_LENGTHS.map((length) => (
+                  <SelectItem key={length} value={String(length)}>
+                    {length} bytes
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="provisionAlgorithm" className="text-right">
+              Algorithm
+            </Label>
+            <Select value={algorithm} onValueChange={(value) => setAlgorithm(value as HashAlgorithms)}>
+              <SelectTrigger id="provisionAlgorithm" className="col-span-3">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="sha1">SHA1</SelectItem>
+                <SelectItem value="sha256">SHA256</SelectItem>
+                <SelectItem value="sha512">SHA512</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="provisionDigits" className="text-right">
+              Digits
+            </Label>
+            <Select value={String(digits)} onValueChange={(value) => setDigits(parseInt(value, 10))}>
+              <SelectTrigger id="provisionDigits" className="col-span-3">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="6">6</SelectItem>
+                <SelectItem value="7">7</SelectItem>
+                <SelectItem value="8">8</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="provisionPeriod" className="text-right">
+              Period (s)
+            </Label>
+            <Input
+              type="number"
+              id="provisionPeriod"
+              min={1}
+              value={period}
+              onChange={(e) => setPeriod(Math.max(1, parseInt(e.target.value, 10) || 30))}
+              className="col-span-3"
+            />
+          </div>
+          {uri ? (
+            <>
+              {qrDataUrl && (
+                <img src={qrDataUrl} alt="QR code for the otpauth URI" className="mx-auto rounded-md" />
+              )}
+              <div className="flex space-x-2">
+                <Textarea value={uri} readOnly className="font-mono text-xs" />
+                <Button variant="outline" size="icon" onClick={() => handleCopy(uri, 'URI')} title="Copy URI">
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            </>
+          ) : labelError ? (
+            <div className="text-sm text-destructive text-center">{labelError}</div>
+          ) : (
+            <div className="text-sm text-muted-foreground text-center">
+              Enter an account name to show the QR code.
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={!uri}>
+            <Save className="mr-2 h-4 w-4" />
+            Save as Account
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
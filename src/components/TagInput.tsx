@@ -0,0 +1,101 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { X } from 'lucide-react';
+import { normalizeLabel, isSameLabel } from '@/lib/tags';
+
+/**
+ * Props for the TagInput component
+ */
+interface TagInputProps {
+  /** ID of the text input, for its label */
+  id?: string;
+  /** The current tags */
+  tags: string[];
+  /** Function to update the tags */
+  onChange: (tags: string[]) => void;
+  /** Tags used by other accounts, offered as suggestions */
+  suggestions: string[];
+}
+
+/**
+ * Component for editing a list of tags.
+ * Tags are added with Enter or a comma (or when the input loses focus) and
+ * removed with their remove button, or with Backspace in the empty input.
+ * Tags that only differ in case from an existing tag are not added again.
+ * 
+ * @param props - The component props
+ * @returns The rendered tag editor
+ */
+export function TagInput({ id, tags, onChange, suggestions }: TagInputProps) {
+  /** Text of the tag being typed */
+  const [draft, setDraft] = useState('');
+  /** ID of the suggestion list */
+  const listId = `${id ?? 'tags'}-suggestions`;
+
+  /**
+   * Adds the typed tag, unless it is empty or already present.
+   */
+  const commitDraft = () => {
+    const tag = normalizeLabel(draft);
+    if (tag && !tags.some((existing) => isSameLabel(existing, tag))) {
+      onChange([...tags, tag]);
+    }
+    setDraft('');
+  };
+
+  /**
+   * Handles key presses in the text input.
+   * 
+   * @param e - The keyboard event
+   */
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      commitDraft();
+    } else if (e.key === 'Backspace' && !draft && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {tags.map((tag) => (
+            <Badge key={tag} variant="secondary" className="gap-1 pr-1">
+              {tag}
+              <button
+                type="button"
+                onClick={() => onChange(tags.filter((existing) => existing !== tag))}
+                className="rounded-full hover:bg-muted-foreground/20"
+                aria-label={`Remove tag ${tag}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <Input
+        type="text"
+        id={id}
+        placeholder="Add a tag and press Enter"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={commitDraft}
+        list={listId}
+      />
+      <datalist id={listId}>
+        {suggestions
+          .filter((suggestion) => !tags.some((existing) => isSameLabel(existing, suggestion)))
+          .map((suggestion) => (
+            <option key={suggestion} value={suggestion} />
+          ))}
+      </datalist>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button, buttonVariants } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import { AccountIcon } from '@/components/AccountIcon';
+import { TrashedConfig, TRASH_RETENTION_OPTIONS, describeRetention, getPurgeTime } from '@/lib/trash';
+
+/**
+ * Props for the TrashDialog component
+ */
+interface TrashDialogProps {
+  /** Whether the dialog is open */
+  isOpen: boolean;
+  /** Function to call when the dialog open state changes */
+  onOpenChange: (open: boolean) => void;
+  /** The deleted configurations, most recently deleted first */
+  trash: TrashedConfig[];
+  /** Number of days deleted configurations are kept (0 keeps them until purged) */
+  retentionDays: number;
+  /** Function to change the number of days deleted configurations are kept */
+  onRetentionChange: (days: number) => void;
+  /** Function to restore a deleted configuration */
+  onRestore: (id: string) => void;
+  /** Function to permanently delete a configuration from the trash */
+  onPurge: (id: string) => void;
+  /** Function to permanently delete all configurations in the trash */
+  onEmpty: () => void;
+}
+
+/**
+ * Component that displays the trash: the deleted configurations, with when each
+ * is purged automatically, and buttons to restore them or delete them permanently.
+ * Permanent deletion has to be confirmed, since the secret keys cannot be recovered.
+ * 
+ * @param props - The component props
+ * @returns The rendered dialog component
+ */
+export function TrashDialog({
+  isOpen,
+  onOpenChange,
+  trash,
+  retentionDays,
+  onRetentionChange,
+  onRestore,
+  onPurge,
+  onEmpty
+}: TrashDialogProps) {
+  /** Configuration waiting for the permanent deletion to be confirmed, 'all' for emptying the trash, or null */
+  const [purgeTarget, setPurgeTarget] = useState<TrashedConfig | 'all' | null>(null);
+
+  /**
+   * Permanently deletes what the user confirmed.
+   */
+  const confirmPurge = () => {
+    if (purgeTarget === 'all') {
+      onEmpty();
+    } else if (purgeTarget) {
+      onPurge(purgeTarget.config.id);
+    }
+    setPurgeTarget(null);
+  };
+
+  return (
+    <>
+      <Dialog open={isOpen} onOpenChange={onOpenChange}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Trash</DialogTitle>
+            <DialogDescription>
+              Deleted accounts are kept here, encrypted, until you restore them or they are deleted permanently.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex items-center gap-2 text-sm">
+            <Label htmlFor="trashRetention">Keep deleted accounts for</Label>
+            <Select value={String(retentionDays)} onValueChange={(value) => onRetentionChange(parseInt(value, 10))}>
+              <SelectTrigger id="trashRetention" className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TRASH_RETENTION_OPTIONS.map((days) => (
+                  <SelectItem key={days} value={String(days)}>
+                    {describeRetention(days)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {trash.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">The trash is empty.</p>
+          ) : (
+            <ul className="divide-y rounded-md border">
+              {trash.map((entry) => {
+                const purgeTime = getPurgeTime(entry, retentionDays);
+                return (
+                  <li key={entry.config.id} className="flex items-center gap-3 p-2">
+                    <AccountIcon config={entry.config} />
+                    <div className="min-w-0 flex-1">
+                      <div className="truncate text-sm font-medium">{entry.config.accountName}</div>
+                      <div className="text-xs text-muted-foreground">
+                        Deleted {new Date(entry.deletedAt).toLocaleString()}
+                        {purgeTime !== null && ` · deleted permanently ${new Date(purgeTime).toLocaleDateString()}`}
+                      </div>
+                    </div>
+                    <Button variant="outline" size="sm" onClick={() => onRestore(entry.config.id)}>
+                      <RotateCcw className="mr-2 h-4 w-4" />
+                      Restore
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      size="icon"
+                      onClick={() => setPurgeTarget(entry)}
+                      title="Delete permanently"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {trash.length > 0 && (
+            <div className="flex justify-end">
+              <Button variant="destructive" onClick={() => setPurgeTarget('all')}>
+                Empty Trash
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={purgeTarget !== null} onOpenChange={(open) => !open && setPurgeTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {purgeTarget === 'all' ? 'Empty the trash?' : `Delete "${purgeTarget?.config.accountName}" permanently?`}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {purgeTarget === 'all'
+                ? trash.length === 1
+                  ? 'The deleted account and its secret key will be gone for good.'
+                  : `All ${trash.length} deleted accounts and their secret keys will be gone for good.`
+                : 'The account and its secret key will be gone for good.'}{' '}
+              Make sure you no longer need them to sign in, or have set up two-factor authentication again elsewhere.
+              This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction className={buttonVariants({ variant: 'destructive' })} onClick={confirmPurge}>
+              Delete Permanently
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,166 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Lock, Eye, EyeOff } from 'lucide-react';
+import { useOTP, MIN_VAULT_PASSWORD_LENGTH } from '@/contexts/OTPContext';
+
+/**
+ * Component that covers the application while the encrypted storage is not unlocked.
+ * Asks for a new password the first time, and for the password on every later visit.
+ * 
+ * @returns The rendered vault screen component, or null while unlocked
+ */
+export function VaultScreen() {
+  /** Encrypted storage state and operations */
+  const { vaultStatus, createVault, unlockVault } = useOTP();
+
+  /** Password input value */
+  const [password, setPassword] = useState('');
+  /** Confirm password input value */
+  const [confirmPassword, setConfirmPassword] = useState('');
+  /** Whether to show the password */
+  const [showPassword, setShowPassword] = useState(false);
+  /** Whether the password is being checked or the storage set up */
+  const [isBusy, setIsBusy] = useState(false);
+  /** Error message */
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Handles the password setup form submission.
+   * 
+   * @param e - The form submit event
+   */
+  const handleSetupSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (password.length < MIN_VAULT_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${MIN_VAULT_PASSWORD_LENGTH} characters long.`);
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match.');
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      await createVault(password);
+      setPassword('');
+      setConfirmPassword('');
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to set up encryption.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  /**
+   * Handles the unlock form submission.
+   * 
+   * @param e - The form submit event
+   */
+  const handleUnlockSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!password) {
+      setError('Please enter your password.');
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      if (await unlockVault(password)) {
+        setPassword('');
+      } else {
+        setError('Incorrect password.');
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  // Nothing to cover once unlocked, or before the storage has been checked
+  if (vaultStatus === 'unlocked' || vaultStatus === 'loading') {
+    return null;
+  }
+
+  const isSetup = vaultStatus === 'setup';
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center bg-background/80 backdrop-blur-sm z-50">
+      <Card className="w-[400px] max-w-[90vw]">
+        <CardHeader>
+          <CardTitle>OTP Manager Pro</CardTitle>
+          <CardDescription>
+            {isSetup
+              ? 'Set a password to encrypt your secrets, prefixes and postfixes'
+              : 'Enter your password to decrypt your OTP configurations'}
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent>
+          <form onSubmit={isSetup ? handleSetupSubmit : handleUnlockSubmit}>
+            <div className="grid gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="vaultPassword">{isSetup ? 'New Password' : 'Password'}</Label>
+                <div className="relative">
+                  <Input
+                    id="vaultPassword"
+                    type={showPassword ? 'text' : 'password'}
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    disabled={isBusy}
+                    className="pr-10"
+                    autoFocus
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="absolute right-0 top-0 h-full"
+                    onClick={() => setShowPassword(!showPassword)}
+                  >
+                    {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                  </Button>
+                </div>
+              </div>
+
+              {isSetup && (
+                <div className="grid gap-2">
+                  <Label htmlFor="vaultConfirmPassword">Confirm Password</Label>
+                  <Input
+                    id="vaultConfirmPassword"
+                    type={showPassword ? 'text' : 'password'}
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    disabled={isBusy}
+                  />
+                </div>
+              )}
+
+              {error && <p className="text-sm text-destructive">{error}</p>}
+
+              <Button type="submit" disabled={isBusy}>
+                <Lock className="mr-2 h-4 w-4" />
+                {isSetup ? 'Set Password' : 'Unlock'}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+
+        <CardFooter className="flex justify-center text-center text-sm text-muted-foreground">
+          {isSetup
+            ? 'The password cannot be recovered. Without it, your configurations cannot be decrypted.'
+            : 'Your secrets, prefixes and postfixes are stored encrypted on your device.'}
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
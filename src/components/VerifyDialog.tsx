@@ -0,0 +1,189 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { ShieldCheck } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { VerifyOptions } from '@/contexts/OTPContext';
+import type { OTPConfig } from '@/lib/otp-config';
+import type { TOTPVerifyResult } from '@/services/OTPService';
+import { LoggingService } from '@/services/LoggingService';
+
+/**
+ * Props for the VerifyDialog component
+ */
+interface VerifyDialogProps {
+  /** The TOTP configuration to verify codes against, or null when the dialog is closed */
+  config: OTPConfig | null;
+  /** Function to call when the dialog open state changes */
+  onOpenChange: (open: boolean) => void;
+  /** Function to verify a code against the configuration */
+  onVerify: (config: OTPConfig, token: string, options: VerifyOptions) => Promise<TOTPVerifyResult>;
+  /** Function to forget the time steps already accepted for the configuration */
+  onClearUsedSteps: (id: string) => void;
+}
+
+/**
+ * Describes which time step a code matched, relative to the current one.
+ * 
+ * @param delta - Offset of the matching step from the current one
+ * @returns A human-readable description of the matching step
+ */
+function describeDelta(delta: number): string {
+  if (delta === 0) {
+    return 'the current time step';
+  }
+  const steps = Math.abs(delta) === 1 ? 'step' : 'steps';
+  return `${Math.abs(delta)} ${steps} ${delta < 0 ? 'behind' : 'ahead of'} the current one (${delta > 0 ? '+' : ''}${delta})`;
+}
+
+/**
+ * Component that displays a dialog for verifying codes typed by someone else
+ * against a TOTP configuration, the way a server would.
+ * Reports which time step within the window matched and, with replay protection,
+ * rejects codes for time steps that were already accepted.
+ * 
+ * @param props - The component props
+ * @returns The rendered dialog component
+ */
+export function VerifyDialog({ config, onOpenChange, onVerify, onClearUsedSteps }: VerifyDialogProps) {
+  /** The code being verified */
+  const [token, setToken] = useState('');
+  /** Number of time steps before and after the current one that are also accepted */
+  const [verifyWindow, setVerifyWindow] = useState(1);
+  /** Whether codes for already accepted time steps are rejected */
+  const [replayProtection, setReplayProtection] = useState(true);
+  /** The result of the most recent verification */
+  const [result, setResult] = useState<TOTPVerifyResult | null>(null);
+  /** Hook for displaying toast notifications */
+  const { toast } = useToast();
+
+  /**
+   * Effect hook to reset the code and result whenever a different configuration is opened.
+   */
+  useEffect(() => {
+    setToken('');
+    setResult(null);
+  }, [config?.id]);
+
+  /**
+   * Handles the verify button click.
+   */
+  const handleVerify = async () => {
+    if (!config || !token) {
+      return;
+    }
+    try {
+      setResult(await onVerify(config, token, { window: verifyWindow, replayProtection }));
+    } catch (error) {
+      LoggingService.error('Error verifying code:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to verify code. Check the secret key.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  /**
+   * Handles the forget button click, so codes that were already accepted can be verified again.
+   */
+  const handleClearUsedSteps = () => {
+    if (!config) {
+      return;
+    }
+    onClearUsedSteps(config.id);
+    setResult(null);
+    toast({
+      title: 'Used Codes Forgotten',
+      description: 'Previously accepted codes can be verified again.',
+    });
+  };
+
+  return (
+    <Dialog open={config !== null} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Verify Code</DialogTitle>
+          <DialogDescription>
+            Check a code against {config?.accountName} the way a server would.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="verifyToken" className="text-right">
+              Code
+            </Label>
+            <Input
+              type="text"
+              id="verifyToken"
+              inputMode="numeric"
+              autoComplete="off"
+              value={token}
+              onChange={(e) => {
+                setToken(e.target.value);
+                setResult(null);
+              }}
+              onKeyDown={(e) => e.key === 'Enter' && handleVerify()}
+              className="col-span-3"
+            />
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="verifyWindow" className="text-right">
+              Window (±steps)
+            </Label>
+            <Input
+              type="number"
+              id="verifyWindow"
+              min={0}
+              value={verifyWindow}
+              onChange={(e) => setVerifyWindow(Math.max(0, parseInt(e.target.value, 10) || 0))}
+              className="col-span-3"
+            />
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="replayProtection"
+              checked={replayProtection}
+              onCheckedChange={(checked) => setReplayProtection(checked === true)}
+            />
+            <Label htmlFor="replayProtection">Reject codes for time steps that were already accepted</Label>
+          </div>
+          {result && (
+            <Alert variant={result.valid ? 'default' : 'destructive'}>
+              <AlertTitle>{result.valid ? 'Valid' : result.replayed ? 'Replayed' : 'Invalid'}</AlertTitle>
+              <AlertDescription>
+                {result.delta === null
+                  ? `The code does not match any time step within ±${verifyWindow}.`
+                  : result.replayed
+                    ? `The code matches ${describeDelta(result.delta)}, which was already accepted (step ${result.step}).`
+                    : `The code matches ${describeDelta(result.delta)} (step ${result.step}).`}
+              </AlertDescription>
+            </Alert>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="secondary" onClick={handleClearUsedSteps}>
+            Forget Used Codes
+          </Button>
+          <Button onClick={handleVerify} disabled={!token}>
+            <ShieldCheck className="mr-2 h-4 w-4" />
+            Verify
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
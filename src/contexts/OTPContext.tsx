@@ -1,54 +1,389 @@
 'use client';
 
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
 import { useToast } from '@/hooks/use-toast';
-import { totp } from 'otplib';
+import { ToastAction } from '@/components/ui/toast';
+import { OTPService, HashAlgorithms, TOTPVerifyResult } from '@/services/OTPService';
+import { LoggingService } from '@/services/LoggingService';
+import { TimeService } from '@/services/TimeService';
+import { EncryptionService } from '@/services/EncryptionService';
+import { SecureStorageRepository, ISecureStorageItem } from '@/repositories/SecureStorageRepository';
+import { TokenTypeRegistry } from '@/services/TokenTypeRegistry';
+import { normalizeSecret } from '@/lib/secret';
+import { formatOtp } from '@/lib/template';
+import { SortOrder, DEFAULT_SORT_ORDER, isSortOrder, moveConfig as moveConfigInOrder } from '@/lib/sort';
+import { TrashedConfig, DEFAULT_TRASH_RETENTION_DAYS, purgeExpired } from '@/lib/trash';
+import { DuplicateWarning, findDuplicates, getDuplicateReasons, mergeConfigs } from '@/lib/duplicates';
+import {
+  ConfigRevision,
+  RevisionAction,
+  addRevision,
+  applyRevision,
+  describeDevice,
+  diffConfigs,
+} from '@/lib/revisions';
+import { OTPConfig, OTP_CONFIG_VERSION, migrateConfig, parseConfigDocument, toConfigDocument } from '@/lib/otp-config';
+
+/** Local storage key of the encrypted configurations */
+const VAULT_KEY = 'otpVault';
+
+/** Local storage key under which configurations were stored in plaintext before encryption was added */
+const LEGACY_CONFIGS_KEY = 'otpConfigs';
+
+/** Minimum length of the password that encrypts the configurations */
+export const MIN_VAULT_PASSWORD_LENGTH = 8;
+
+/** Properties of a configuration that are stored encrypted */
+const SENSITIVE_KEYS = ['secretKey', 'prefix', 'postfix', 'pin', 'template', 'variables', 'notes', 'customFields'] as const;
+
+/** The sensitive properties plain exports leave out, kept from the existing account when an import replaces it */
+const EXPORT_STRIPPED_KEYS = SENSITIVE_KEYS.filter((key) => key !== 'secretKey');
+
+/** Format marker of encrypted backup files */
+const ENCRYPTED_BACKUP_FORMAT = 'otp-manager-pro-encrypted-backup';
+
+/**
+ * Revision histories of configurations, keyed by configuration ID, newest revision first.
+ */
+export type RevisionHistories = { [id: string]: ConfigRevision[] };
+
+/**
+ * A configuration as stored in the encrypted storage: the sensitive properties
+ * and the revision history (which holds old secret keys) are encrypted, everything
+ * else is stored as is. Deleted configurations in the trash are stored the same
+ * way, with the time they were deleted.
+ */
+interface StoredOTPConfig extends ISecureStorageItem, Omit<OTPConfig, 'id' | (typeof SENSITIVE_KEYS)[number]> {
+  /** The sensitive properties of the configuration, and its revisions */
+  sensitiveData: Pick<OTPConfig, (typeof SENSITIVE_KEYS)[number]> & { revisions?: ConfigRevision[] };
+  /** Schema version the configuration was stored with (missing for configurations stored before it was versioned) */
+  version?: number;
+  /** When the configuration was deleted, for configurations in the trash */
+  deletedAt?: number;
+  /** Position of the configuration in the manual order when it was deleted, for configurations in the trash */
+  trashPosition?: number;
+}
+
+/**
+ * Contents of an encrypted backup file.
+ */
+export interface EncryptedBackup {
+  /** Always ENCRYPTED_BACKUP_FORMAT */
+  format: typeof ENCRYPTED_BACKUP_FORMAT;
+  /** The configurations as a ConfigDocument in JSON, encrypted as a base64 string */
+  encryptedData: string;
+  /** Salt used for key derivation, as a base64 string */
+  salt: string;
+  /** Initialization vector used for encryption, as a base64 string */
+  iv: string;
+}
+
+/**
+ * Configurations read from an import file, checked but not imported yet.
+ */
+export interface ImportPlan {
+  /** The imported configurations, validated and with normalized secret keys */
+  configs: OTPConfig[];
+  /** Imported configurations that duplicate or replace existing ones, or duplicate other imported ones */
+  duplicates: DuplicateWarning[];
+}
+
+/**
+ * State of the encrypted storage.
+ * 'setup' means no password has been set yet, 'locked' that the password must be
+ * entered before the configurations can be used.
+ */
+export type VaultStatus = 'loading' | 'setup' | 'locked' | 'unlocked';
+
+/**
+ * Splits a configuration into its stored form.
+ * 
+ * @param config - The configuration to store
+ * @param revisions - The configuration's revisions, if any
+ * @returns The configuration with its sensitive properties and revisions moved into sensitiveData
+ */
+function toStoredConfig(config: OTPConfig, revisions?: ConfigRevision[]): StoredOTPConfig {
+  const { secretKey, prefix, postfix, pin, template, variables, notes, customFields, ...publicData } = config;
+  return {
+    ...publicData,
+    sensitiveData: { secretKey, prefix, postfix, pin, template, variables, notes, customFields, revisions },
+    version: OTP_CONFIG_VERSION,
+  };
+}
+
+/**
+ * Restores a configuration from its stored form, upgrading it to the current schema.
+ * 
+ * @param item - The stored configuration
+ * @returns The configuration with its sensitive properties
+ * @throws Error if the stored configuration is invalid
+ */
+function fromStoredConfig(item: StoredOTPConfig): OTPConfig {
+  const { sensitiveData, version, deletedAt, trashPosition, ...publicData } = item;
+  const { revisions, ...sensitiveProperties } = sensitiveData;
+  return migrateConfig({ ...publicData, ...sensitiveProperties }, version ?? 0);
+}
+
+/**
+ * Restores the revisions of a configuration from its stored form, upgrading them
+ * to the current schema. Revisions that are no longer valid are dropped, so that
+ * a damaged history never keeps the configuration itself from loading.
+ * 
+ * @param item - The stored configuration
+ * @returns The configuration's revisions, newest first
+ */
+function fromStoredRevisions(item: StoredOTPConfig): ConfigRevision[] {
+  const revisions: ConfigRevision[] = [];
+  for (const revision of item.sensitiveData.revisions ?? []) {
+    try {
+      revisions.push({ ...revision, config: migrateConfig(revision.config, item.version ?? 0) });
+    } catch (error) {
+      LoggingService.warn('Dropping invalid revision:', error);
+    }
+  }
+  return revisions;
+}
+
+/**
+ * Splits a deleted configuration into its stored form.
+ * 
+ * @param entry - The deleted configuration to store
+ * @param revisions - The configuration's revisions, if any
+ * @returns The stored configuration, marked as deleted
+ */
+function toStoredTrashEntry(entry: TrashedConfig, revisions?: ConfigRevision[]): StoredOTPConfig {
+  return { ...toStoredConfig(entry.config, revisions), deletedAt: entry.deletedAt, trashPosition: entry.position };
+}
+
+/**
+ * Moves the revisions of a deleted configuration from the ID another configuration
+ * has taken since (e.g. through an import) to the ID it gets when it is restored.
+ * A deleted configuration cannot change, so its revisions are the ones recorded
+ * before it was deleted; later ones belong to the configuration that took its ID.
+ * 
+ * @param revisions - The revision histories
+ * @param entry - The deleted configuration
+ * @param newId - The ID the configuration is restored with
+ * @returns The revision histories with the deleted configuration's revisions under the new ID
+ */
+function rekeyTrashRevisions(revisions: RevisionHistories, entry: TrashedConfig, newId: string): RevisionHistories {
+  const history = revisions[entry.config.id] ?? [];
+  const { [entry.config.id]: _, ...rest } = revisions;
+  const deleted = history.filter((revision) => revision.changedAt <= entry.deletedAt);
+  const current = history.filter((revision) => revision.changedAt > entry.deletedAt);
+  return {
+    ...rest,
+    ...(current.length > 0 && { [entry.config.id]: current }),
+    ...(deleted.length > 0 && { [newId]: deleted }),
+  };
+}
+
+/**
+ * Fills in the sensitive properties an imported configuration lacks from the
+ * existing configuration it replaces. Plain exports leave them out, so importing
+ * one would otherwise clear e.g. the PIN of a Mobile-OTP account.
+ * 
+ * @param imported - The imported configuration
+ * @param existing - The existing configuration with the same ID
+ * @returns The imported configuration with the missing or blank properties of the existing one
+ */
+function keepStrippedFields(imported: OTPConfig, existing: OTPConfig): OTPConfig {
+  const isBlank = (value: unknown) =>
+    value === undefined ||
+    (typeof value === 'string' && value.trim() === '') ||
+    (Array.isArray(value) && value.length === 0) ||
+    (typeof value === 'object' && value !== null && Object.keys(value).length === 0);
+  const config = { ...imported };
+  for (const key of EXPORT_STRIPPED_KEYS) {
+    if (isBlank(config[key]) && !isBlank(existing[key])) {
+      Object.assign(config, { [key]: existing[key] });
+    }
+  }
+  return config;
+}
+
+/**
+ * Restores the configurations, the trash and the revision histories from their stored forms.
+ * Stored configurations that are invalid are returned separately instead of
+ * failing the whole load, so that one damaged configuration never locks the user
+ * out of all the others.
+ * 
+ * @param items - The stored configurations, deleted ones included
+ * @returns The configurations in their manual order, the deleted configurations, the
+ * revision histories and the stored configurations that could not be read
+ */
+function fromStoredItems(items: StoredOTPConfig[]): {
+  configs: OTPConfig[];
+  trash: TrashedConfig[];
+  revisions: RevisionHistories;
+  unreadable: StoredOTPConfig[];
+} {
+  const configs: OTPConfig[] = [];
+  const trash: TrashedConfig[] = [];
+  const revisions: RevisionHistories = {};
+  const unreadable: StoredOTPConfig[] = [];
+  for (const item of items) {
+    let config: OTPConfig;
+    try {
+      config = fromStoredConfig(item);
+    } catch (error) {
+      LoggingService.error(`Skipping invalid stored configuration ${item.id}:`, error);
+      unreadable.push(item);
+      continue;
+    }
+    if (item.deletedAt === undefined) {
+      configs.push(config);
+    } else {
+      trash.push({ config, deletedAt: item.deletedAt, position: item.trashPosition ?? 0 });
+    }
+    const history = fromStoredRevisions(item);
+    if (history.length > 0) {
+      revisions[config.id] = history;
+    }
+  }
+  return { configs, trash, revisions, unreadable };
+}
+
+/**
+ * Checks whether imported data is an encrypted backup.
+ * 
+ * @param data - The parsed contents of an imported file
+ * @returns True if the data is an encrypted backup
+ */
+function isEncryptedBackup(data: unknown): data is EncryptedBackup {
+  return typeof data === 'object' && data !== null && (data as EncryptedBackup).format === ENCRYPTED_BACKUP_FORMAT;
+}
+
+/**
+ * Downloads text as a file.
+ * 
+ * @param contents - The file contents
+ * @param fileName - The name of the downloaded file
+ */
+function downloadFile(contents: string, fileName: string) {
+  const blob = new Blob([contents], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/** Local storage key for the number of seconds before expiry at which the next code is shown */
+const NEXT_CODE_THRESHOLD_KEY = 'nextCodeThreshold';
+
+/** Default number of seconds before expiry at which the next code is shown */
+const DEFAULT_NEXT_CODE_THRESHOLD = 5;
+
+/** Local storage key for the number of days deleted configurations are kept in the trash */
+const TRASH_RETENTION_KEY = 'otpTrashRetentionDays';
+
+/** Local storage key for the order accounts are shown in */
+const SORT_ORDER_KEY = 'otpSortOrder';
+
+/** Local storage key for the time steps already accepted by the verifier, per configuration */
+const USED_STEPS_KEY = 'otpUsedSteps';
+
+/** Maximum number of used time steps remembered per configuration */
+const MAX_USED_STEPS = 100;
 
 /**
- * Interface representing an OTP configuration.
- * Contains all the information needed to generate and identify an OTP.
+ * Options for verifying a code typed by someone else.
  */
-export interface OTPConfig {
-  /** Unique identifier for the configuration */
-  id: string;
-  /** Name of the account associated with this OTP */
-  accountName: string;
-  /** Secret key used to generate the OTP */
-  secretKey: string;
-  /** Optional text to add before the OTP */
-  prefix: string;
-  /** Optional text to add after the OTP */
-  postfix: string;
+export interface VerifyOptions {
+  /** Number of time steps before and after the current one that are also accepted */
+  window: number;
+  /** Whether to reject codes for time steps that were already accepted, and remember newly accepted ones */
+  replayProtection: boolean;
 }
 
 /**
  * Interface for the OTP context state and methods.
  */
 interface OTPContextType {
-  /** Array of all OTP configurations */
+  /** Array of all OTP configurations (empty while the encrypted storage is locked) */
   otpConfigs: OTPConfig[];
+  /** Deleted OTP configurations, most recently deleted first (empty while the encrypted storage is locked) */
+  trash: TrashedConfig[];
+  /** Revisions of each OTP configuration, newest first (empty while the encrypted storage is locked) */
+  revisions: RevisionHistories;
+  /** Number of days deleted configurations are kept in the trash (0 keeps them until purged) */
+  trashRetentionDays: number;
+  /** Updates and persists the number of days deleted configurations are kept in the trash */
+  setTrashRetentionDays: (days: number) => void;
+  /** State of the encrypted storage */
+  vaultStatus: VaultStatus;
+  /** Sets the password and encrypts the existing configurations with it */
+  createVault: (password: string) => Promise<void>;
+  /** Decrypts the configurations with the password, or returns false if the password is wrong */
+  unlockVault: (password: string) => Promise<boolean>;
+  /** Forgets the password and the decrypted configurations until the storage is unlocked again */
+  lockVault: () => void;
   /** Remaining time in seconds for each OTP before it expires */
   remainingTimes: { [key: string]: number };
+  /** Current OTP code (formatted with the configuration's template) for each configuration */
+  otpCodes: { [key: string]: string };
+  /** Upcoming OTP code (formatted with the configuration's template) for each time-based configuration in the last seconds of its period */
+  nextOtpCodes: { [key: string]: string };
+  /** Number of seconds before expiry at which the next code is shown (0 disables it) */
+  nextCodeThreshold: number;
+  /** Updates and persists the number of seconds before expiry at which the next code is shown */
+  setNextCodeThreshold: (seconds: number) => void;
+  /** Order the accounts are shown in */
+  sortOrder: SortOrder;
+  /** Updates and persists the order the accounts are shown in */
+  setSortOrder: (order: SortOrder) => void;
+  /** Measured offset between the device clock and the server clock in milliseconds, or null until measured */
+  clockOffset: number | null;
+  /** Re-measures the clock offset against the server and reports the result */
+  syncClock: () => Promise<void>;
   /** Whether OTP codes are visible or masked */
   isOtpVisible: boolean;
   /** Toggles the visibility of OTP codes */
   toggleOtpVisibility: () => void;
-  /** Adds a new OTP configuration */
-  addConfig: (config: Omit<OTPConfig, 'id'>) => void;
-  /** Updates an existing OTP configuration */
-  updateConfig: (config: OTPConfig) => void;
-  /** Deletes an OTP configuration */
+  /** Validates and adds a new OTP configuration, returning whether it was added */
+  addConfig: (config: Omit<OTPConfig, 'id'>) => boolean;
+  /** Validates and updates an existing OTP configuration, recording its previous version as a revision; returns whether it was updated */
+  updateConfig: (config: OTPConfig) => boolean;
+  /** Reverts an OTP configuration to one of its revisions */
+  revertConfig: (id: string, revisionId: string) => void;
+  /** Moves an OTP configuration to the trash */
   deleteConfig: (id: string) => void;
+  /** Merges duplicate OTP configurations into one and moves the others to the trash */
+  mergeDuplicates: (canonicalId: string, duplicateIds: string[]) => void;
+  /** Moves a deleted OTP configuration from the trash back to where it was */
+  restoreConfig: (id: string) => void;
+  /** Permanently deletes an OTP configuration from the trash */
+  purgeConfig: (id: string) => void;
+  /** Permanently deletes all OTP configurations in the trash */
+  emptyTrash: () => void;
+  /** Moves an OTP configuration to the position of another one in the manual order */
+  moveConfig: (id: string, targetId: string) => void;
+  /** Pins an OTP configuration to the top of the grid, or unpins it */
+  togglePinned: (id: string) => void;
   /** Copies an OTP code to the clipboard */
-  copyOTP: (secret: string, prefix: string, postfix: string) => void;
+  copyOTP: (config: OTPConfig) => Promise<void>;
   /** Refreshes and copies an OTP code */
-  refreshOTP: (secret: string, prefix: string, postfix: string) => void;
-  /** Generates an OTP code */
-  generateOTP: (secret: string, prefix?: string, postfix?: string) => string;
-  /** Imports OTP configurations from a JSON file */
-  importConfigs: (configs: OTPConfig[]) => void;
-  /** Exports OTP configurations to a JSON file */
-  exportConfigs: () => void;
+  refreshOTP: (config: OTPConfig) => Promise<void>;
+  /** Advances the counter of a counter-based configuration to produce the next code */
+  advanceCounter: (id: string) => void;
+  /** Verifies a code against a time-based configuration, with a skew window and optional replay protection */
+  verifyOTP: (config: OTPConfig, token: string, options: VerifyOptions) => Promise<TOTPVerifyResult>;
+  /** Forgets the time steps already accepted by the verifier for a configuration */
+  clearUsedSteps: (id: string) => void;
+  /** Computes and copies the response to a challenge, or returns null if it cannot be computed */
+  respondToChallenge: (config: OTPConfig, challenge: string) => Promise<string | null>;
+  /** Generates an OTP code, optionally for a later time step */
+  generateOTP: (config: OTPConfig, stepOffset?: number) => Promise<string>;
+  /** Reads and checks OTP configurations from a JSON file or an encrypted backup, or returns null if they cannot be imported */
+  prepareImport: (data: unknown) => Promise<ImportPlan | null>;
+  /** Adds the configurations of a checked import, moving the ones they replace to the trash */
+  applyImport: (plan: ImportPlan) => void;
+  /** Exports OTP configurations to an encrypted backup, or to a JSON file without prefixes, postfixes, variables, notes and custom fields */
+  exportConfigs: (encrypted: boolean) => Promise<void>;
 }
 
 /**
@@ -74,56 +409,258 @@ interface OTPProviderProps {
 export function OTPProvider({ children }: OTPProviderProps) {
   /** State for storing all OTP configurations */
   const [otpConfigs, setOtpConfigs] = useState<OTPConfig[]>([]);
+  /** State for the deleted configurations, most recently deleted first */
+  const [trash, setTrash] = useState<TrashedConfig[]>([]);
+  /** State for the revisions of each configuration */
+  const [revisions, setRevisions] = useState<RevisionHistories>({});
+  /** State for the number of days deleted configurations are kept */
+  const [trashRetentionDays, setTrashRetentionDaysState] = useState(DEFAULT_TRASH_RETENTION_DAYS);
   /** Controls whether OTP codes are visible or masked (for security) */
   const [isOtpVisible, setIsOtpVisible] = useState(false);
   /** State to track the remaining time (in seconds) for each OTP before it expires */
   const [remainingTimes, setRemainingTimes] = useState<{ [key: string]: number }>({});
+  /** State for the current OTP code of each configuration, recomputed every second */
+  const [otpCodes, setOtpCodes] = useState<{ [key: string]: string }>({});
+  /** State for the upcoming OTP code of each configuration about to expire, recomputed every second */
+  const [nextOtpCodes, setNextOtpCodes] = useState<{ [key: string]: string }>({});
+  /** State for the number of seconds before expiry at which the next code is shown */
+  const [nextCodeThreshold, setNextCodeThresholdState] = useState(DEFAULT_NEXT_CODE_THRESHOLD);
+  /** State for the order the accounts are shown in */
+  const [sortOrder, setSortOrderState] = useState<SortOrder>(DEFAULT_SORT_ORDER);
+  /** State for the time steps already accepted by the verifier, keyed by configuration ID */
+  const [usedSteps, setUsedSteps] = useState<{ [key: string]: number[] }>({});
+  /** State for the measured clock offset in milliseconds (null until the first measurement succeeds) */
+  const [clockOffset, setClockOffset] = useState<number | null>(null);
+  /** State of the encrypted storage (loading until checked on mount) */
+  const [vaultStatus, setVaultStatus] = useState<VaultStatus>('loading');
+  /** The unlocked encrypted storage, or null while locked */
+  const repositoryRef = useRef<SecureStorageRepository<StoredOTPConfig> | null>(null);
+  /** The password of the unlocked encrypted storage, used for encrypted backups */
+  const passwordRef = useRef('');
+  /** The configurations as of the latest render, for actions created before they changed */
+  const otpConfigsRef = useRef(otpConfigs);
+  otpConfigsRef.current = otpConfigs;
+  /** The trash as of the latest render, for actions created before it changed */
+  const trashRef = useRef(trash);
+  trashRef.current = trash;
+  /** Stored configurations that could not be read when unlocking, saved back unchanged so they are not lost */
+  const unreadableItemsRef = useRef<StoredOTPConfig[]>([]);
+  /** Chain of pending saves, so that saves are written in order */
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
   /** Hook for displaying toast notifications */
   const { toast } = useToast();
 
   /**
-   * Effect hook to load OTP configurations from local storage when the component mounts.
-   * This ensures that user configurations persist between sessions.
+   * Effect hook to check the encrypted storage and load the settings from local
+   * storage when the component mounts. The configurations themselves are only
+   * loaded once the storage is unlocked.
    */
   useEffect(() => {
-    // Load configurations from local storage on component mount
-    const storedConfigs = localStorage.getItem('otpConfigs');
-    if (storedConfigs) {
-      setOtpConfigs(JSON.parse(storedConfigs));
+    setVaultStatus(SecureStorageRepository.isInitialized(VAULT_KEY) ? 'locked' : 'setup');
+    const storedThreshold = localStorage.getItem(NEXT_CODE_THRESHOLD_KEY);
+    if (storedThreshold !== null) {
+      setNextCodeThresholdState(Number(storedThreshold) || 0);
+    }
+    const storedRetention = localStorage.getItem(TRASH_RETENTION_KEY);
+    if (storedRetention !== null) {
+      setTrashRetentionDaysState(Number(storedRetention) || 0);
+    }
+    const storedSortOrder = localStorage.getItem(SORT_ORDER_KEY);
+    if (isSortOrder(storedSortOrder)) {
+      setSortOrderState(storedSortOrder);
+    }
+    const storedUsedSteps = localStorage.getItem(USED_STEPS_KEY);
+    if (storedUsedSteps) {
+      try {
+        setUsedSteps(JSON.parse(storedUsedSteps));
+      } catch (error) {
+        LoggingService.error('Error loading accepted time steps:', error);
+        setUsedSteps({});
+      }
     }
   }, []);
 
   /**
-   * Effect hook to save OTP configurations to local storage whenever they change.
-   * This ensures that user configurations are always up-to-date in storage.
+   * Effect hook to save OTP configurations and the trash to the encrypted storage whenever they change.
+   * Nothing is saved while the storage is locked, so a locked session can never
+   * overwrite the stored configurations. Stored configurations that could not be
+   * read are written back as they were.
+   */
+  useEffect(() => {
+    const repository = repositoryRef.current;
+    if (vaultStatus !== 'unlocked' || !repository) {
+      return;
+    }
+    const items = [
+      ...otpConfigs.map((config) => toStoredConfig(config, revisions[config.id])),
+      ...trash.map((entry) => toStoredTrashEntry(entry, revisions[entry.config.id])),
+      ...unreadableItemsRef.current,
+    ];
+    saveQueueRef.current = saveQueueRef.current
+      .then(() => repository.saveAll(items))
+      .catch((error) => {
+        LoggingService.error('Failed to save configurations:', error);
+        toast({
+          title: 'Error',
+          description: 'Failed to save configurations.',
+          variant: 'destructive',
+        });
+      });
+  }, [otpConfigs, trash, revisions, vaultStatus]);
+
+  /**
+   * Effect hook to purge deleted configurations older than the retention period,
+   * when the storage is unlocked and whenever the trash or the retention changes.
+   */
+  useEffect(() => {
+    if (vaultStatus === 'unlocked') {
+      setTrash((prevTrash) => purgeExpired(prevTrash, trashRetentionDays, Date.now()));
+    }
+  }, [trash, trashRetentionDays, vaultStatus]);
+
+  /**
+   * Effect hook to save the verifier's used time steps to local storage whenever they change,
+   * so replay protection survives a reload.
+   */
+  useEffect(() => {
+    localStorage.setItem(USED_STEPS_KEY, JSON.stringify(usedSteps));
+  }, [usedSteps]);
+
+  /**
+   * Effect hook to measure the clock offset against the server when the component mounts.
+   * A failed measurement is only logged; codes then fall back to the device clock.
    */
   useEffect(() => {
-    // Save configurations to local storage whenever otpConfigs changes
-    localStorage.setItem('otpConfigs', JSON.stringify(otpConfigs));
-  }, [otpConfigs]);
+    TimeService.measureOffset()
+      .then(({ offset }) => setClockOffset(offset))
+      .catch((error) => LoggingService.warn('Failed to measure clock offset:', error));
+  }, []);
+
+  /**
+   * Gets the current time for a configuration: the drift-corrected clock
+   * plus the configuration's own time offset.
+   * 
+   * @param config - The OTP configuration to get the time for
+   * @returns The time in milliseconds since the epoch
+   */
+  const getConfigTime = (config: OTPConfig) => TimeService.now() + (config.timeOffset ?? 0) * 1000;
+
+  /**
+   * Gets the remaining time of a configuration's current code, using the period
+   * its token type declares (e.g. the configured period for TOTP, 10 seconds for mOTP).
+   * 
+   * @param config - The OTP configuration to get the remaining time for
+   * @returns The remaining time in seconds, or undefined for token types whose codes never expire (e.g. HOTP and OCRA)
+   */
+  const getConfigRemainingTime = (config: OTPConfig) => {
+    const getPeriod = TokenTypeRegistry.find(config.type)?.getPeriod;
+    if (!getPeriod) {
+      return undefined;
+    }
+    return OTPService.getRemainingTime(getPeriod(config), getConfigTime(config));
+  };
 
   /**
    * Calculates the remaining time for each OTP configuration before it expires.
-   * TOTP codes typically change every 30 seconds, so this calculates how many
-   * seconds are left in the current period.
+   * Configurations whose codes never expire are skipped.
    */
   const calculateRemainingTime = () => {
     const newRemainingTimes: { [key: string]: number } = {};
     otpConfigs.forEach((config) => {
-      newRemainingTimes[config.id] = 30 - (Math.floor(Date.now() / 1000) % 30);
+      const remainingTime = getConfigRemainingTime(config);
+      if (remainingTime !== undefined) {
+        newRemainingTimes[config.id] = remainingTime;
+      }
     });
     setRemainingTimes(newRemainingTimes);
   };
 
   /**
-   * Effect hook to update the remaining time for each OTP every second.
+   * Generates the current OTP code for every configuration, and the next code
+   * for every time-based configuration within nextCodeThreshold seconds of expiring.
+   * Code generation is asynchronous (Web Crypto), so all codes are computed
+   * before a single state update. A configuration whose secret cannot be used
+   * gets an empty code instead of breaking the others. Token types without a
+   * generator (e.g. OCRA, which needs a challenge) and unknown types are skipped.
+   * 
+   * @returns A promise that resolves to the current and next codes keyed by configuration ID
+   */
+  const calculateOtpCodes = async () => {
+    const newOtpCodes: { [key: string]: string } = {};
+    const newNextOtpCodes: { [key: string]: string } = {};
+    await Promise.all(
+      otpConfigs.filter((config) => TokenTypeRegistry.find(config.type)?.generate).map(async (config) => {
+        try {
+          newOtpCodes[config.id] = await generateOTP(config);
+          const remainingTime = getConfigRemainingTime(config);
+          if (remainingTime !== undefined && remainingTime <= nextCodeThreshold) {
+            newNextOtpCodes[config.id] = await generateOTP(config, 1);
+          }
+        } catch (error) {
+          LoggingService.error(`Failed to generate OTP for configuration ${config.id}:`, error);
+          newOtpCodes[config.id] = '';
+        }
+      })
+    );
+    return { otpCodes: newOtpCodes, nextOtpCodes: newNextOtpCodes };
+  };
+
+  /**
+   * Effect hook to update the remaining time and code for each OTP every second.
    * Sets up an interval that runs every second and cleans it up when the component unmounts.
+   * Results of a tick that finishes after cleanup are discarded.
    */
   useEffect(() => {
-    calculateRemainingTime();
-    const intervalId = setInterval(calculateRemainingTime, 1000);
-    return () => clearInterval(intervalId);
-  }, [otpConfigs]);
+    let isCancelled = false;
+    const tick = () => {
+      calculateRemainingTime();
+      calculateOtpCodes().then((codes) => {
+        if (!isCancelled) {
+          setOtpCodes(codes.otpCodes);
+          setNextOtpCodes(codes.nextOtpCodes);
+        }
+      });
+    };
+    tick();
+    const intervalId = setInterval(tick, 1000);
+    return () => {
+      isCancelled = true;
+      clearInterval(intervalId);
+    };
+  }, [otpConfigs, nextCodeThreshold]);
+
+  /**
+   * Updates the number of seconds before expiry at which the next code is shown,
+   * and persists it to local storage.
+   * 
+   * @param seconds - The new threshold in seconds (0 disables the next code)
+   */
+  const setNextCodeThreshold = (seconds: number) => {
+    setNextCodeThresholdState(seconds);
+    localStorage.setItem(NEXT_CODE_THRESHOLD_KEY, String(seconds));
+  };
+
+  /**
+   * Updates the number of days deleted configurations are kept in the trash,
+   * and persists it to local storage. Configurations that are older than the
+   * new retention period are purged.
+   * 
+   * @param days - The new retention in days (0 keeps them until purged)
+   */
+  const setTrashRetentionDays = (days: number) => {
+    setTrashRetentionDaysState(days);
+    localStorage.setItem(TRASH_RETENTION_KEY, String(days));
+  };
+
+  /**
+   * Updates the order the accounts are shown in, and persists it to local storage.
+   * 
+   * @param order - The new sort order
+   */
+  const setSortOrder = (order: SortOrder) => {
+    setSortOrderState(order);
+    localStorage.setItem(SORT_ORDER_KEY, order);
+  };
 
   /**
    * Toggles the visibility of OTP codes between shown and hidden.
@@ -135,45 +672,115 @@ export function OTPProvider({ children }: OTPProviderProps) {
   };
 
   /**
-   * Generates a One-Time Password (OTP) based on the provided secret key.
-   * Optionally adds prefix and postfix text to the generated token.
+   * Generates a One-Time Password (OTP) for the provided configuration with the
+   * generator of its token type, and formats it with the configuration's template
+   * (by default, the code between the prefix and the postfix).
+   * Time-based codes use the drift-corrected clock plus the configuration's own
+   * time offset.
+   * 
+   * @param config - The OTP configuration to generate a code for
+   * @param stepOffset - Number of time steps ahead to generate the code for, e.g. 1 for the next code (ignored by counter-based types)
+   * @returns A promise that resolves to the formatted OTP
+   * @throws Error for unknown token types, types without a generator (e.g. OCRA, which needs a challenge) and invalid templates
+   */
+  const generateOTP = async (config: OTPConfig, stepOffset: number = 0): Promise<string> => {
+    const definition = TokenTypeRegistry.get(config.type);
+    if (!definition.generate) {
+      throw new Error(`${definition.label} configurations require a challenge.`);
+    }
+    const code = await definition.generate(config, { timestamp: getConfigTime(config), stepOffset });
+    return formatOtp(config, code);
+  };
+
+  /**
+   * Validates a configuration against the schema before it is saved.
+   * A configuration that does not match the schema would keep the encrypted
+   * storage from loading it again, so it is reported instead of saved.
    * 
-   * @param secret - The secret key used to generate the OTP
-   * @param prefix - Optional text to add before the OTP (default: '')
-   * @param postfix - Optional text to add after the OTP (default: '')
-   * @returns The generated OTP with optional prefix and postfix
+   * @param config - The configuration to save
+   * @returns The validated configuration, or null if it is invalid
    */
-  const generateOTP = (secret: string, prefix: string = '', postfix: string = '') => {
-    const token = totp.generate(secret);
-    return `${prefix}${token}${postfix}`;
+  const validateConfig = (config: OTPConfig): OTPConfig | null => {
+    try {
+      return migrateConfig(config, OTP_CONFIG_VERSION);
+    } catch (error) {
+      LoggingService.error('Refusing to save an invalid configuration:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Invalid configuration.',
+        variant: 'destructive',
+      });
+      return null;
+    }
   };
 
   /**
    * Adds a new OTP configuration.
-   * Generates a unique ID and adds the configuration to the state.
+   * Generates a unique ID, validates the configuration and adds it to the state.
    * 
    * @param config - The OTP configuration to add (without ID)
+   * @returns True if the configuration was added, false if it is invalid
    */
   const addConfig = (config: Omit<OTPConfig, 'id'>) => {
-    const newConfig: OTPConfig = {
+    const newConfig = validateConfig({
       ...config,
       id: Math.random().toString(36).substring(7),
-    };
+    });
+    if (!newConfig) {
+      return false;
+    }
 
     setOtpConfigs((prevConfigs) => [...prevConfigs, newConfig]);
     toast({
       title: 'Success',
       description: 'Configuration added successfully.',
     });
+    return true;
+  };
+
+  /**
+   * Records the previous version of a configuration in its revision history,
+   * unless nothing tracked changed.
+   * 
+   * @param previous - The configuration before the change
+   * @param next - The configuration after the change
+   * @param action - What kind of change it is
+   */
+  const recordRevision = (previous: OTPConfig, next: OTPConfig, action: RevisionAction) => {
+    if (diffConfigs(previous, next).length === 0) {
+      return;
+    }
+    const revision: ConfigRevision = {
+      id: Math.random().toString(36).substring(7),
+      changedAt: Date.now(),
+      action,
+      device: describeDevice(navigator.userAgent),
+      config: previous,
+    };
+    setRevisions((prevRevisions) => ({
+      ...prevRevisions,
+      [previous.id]: addRevision(prevRevisions[previous.id], revision),
+    }));
   };
 
   /**
    * Updates an existing OTP configuration.
-   * Finds the configuration with the matching ID and updates its properties.
+   * Validates the configuration, then finds the configuration with the matching ID
+   * and updates its properties. The previous version is kept as a revision, so a
+   * mistaken edit can be reverted.
    * 
-   * @param config - The updated OTP configuration
+   * @param update - The updated OTP configuration
+   * @returns True if the configuration was updated, false if it is invalid
    */
-  const updateConfig = (config: OTPConfig) => {
+  const updateConfig = (update: OTPConfig) => {
+    const config = validateConfig(update);
+    if (!config) {
+      return false;
+    }
+    const previous = otpConfigs.find((c) => c.id === config.id);
+    if (previous) {
+      recordRevision(previous, config, 'edit');
+    }
     setOtpConfigs((prevConfigs) =>
       prevConfigs.map((c) => (c.id === config.id ? config : c))
     );
@@ -181,101 +788,689 @@ export function OTPProvider({ children }: OTPProviderProps) {
       title: 'Success',
       description: 'Configuration updated successfully.',
     });
+    return true;
   };
 
   /**
-   * Deletes an OTP configuration.
-   * Removes the configuration with the specified ID from the state.
+   * Reverts an OTP configuration to one of its revisions.
+   * The version being replaced is kept as a revision too, so a revert can itself
+   * be reverted. The pin and last use are kept, and the counter is not moved back
+   * while the secret key stays the same.
+   * 
+   * @param id - The ID of the configuration
+   * @param revisionId - The ID of the revision to revert to
+   */
+  const revertConfig = (id: string, revisionId: string) => {
+    const current = otpConfigs.find((c) => c.id === id);
+    const revision = revisions[id]?.find((r) => r.id === revisionId);
+    if (!current || !revision) {
+      return;
+    }
+    const reverted = applyRevision(current, revision);
+    recordRevision(current, reverted, 'revert');
+    setOtpConfigs((prevConfigs) => prevConfigs.map((c) => (c.id === id ? reverted : c)));
+    toast({
+      title: 'Success',
+      description: `"${reverted.accountName}" was reverted to its version of ${new Date(revision.changedAt).toLocaleString()}.`,
+    });
+  };
+
+  /**
+   * Moves an OTP configuration to the trash.
+   * The configuration is kept, encrypted, until it is restored, purged or older
+   * than the retention period. The toast offers to undo the deletion.
    * 
    * @param id - The ID of the configuration to delete
    */
   const deleteConfig = (id: string) => {
-    setOtpConfigs((prevConfigs) => prevConfigs.filter((config) => config.id !== id));
+    const position = otpConfigs.findIndex((config) => config.id === id);
+    if (position === -1) {
+      return;
+    }
+    const config = otpConfigs[position];
+    setOtpConfigs((prevConfigs) => prevConfigs.filter((c) => c.id !== id));
+    setTrash((prevTrash) => [{ config, deletedAt: Date.now(), position }, ...prevTrash]);
     toast({
-      title: 'Success',
-      description: 'Configuration deleted successfully.',
+      title: 'Moved to Trash',
+      description: `"${config.accountName}" was moved to the trash.`,
+      action: (
+        <ToastAction altText="Undo the deletion" onClick={() => restoreConfig(id)}>
+          Undo
+        </ToastAction>
+      ),
     });
   };
 
   /**
-   * Copies an OTP code to the clipboard.
-   * Generates the OTP using the provided secret, prefix, and postfix,
-   * copies it to the clipboard, and displays a success message.
+   * Merges duplicate OTP configurations into the one that is kept.
+   * The kept configuration gains the tags, notes, custom fields and other metadata
+   * of the duplicates (see mergeConfigs), and its previous version is kept as a
+   * revision. The duplicates are moved to the trash, so they can be restored if
+   * they turn out not to be duplicates after all.
    * 
-   * @param secret - The secret key used to generate the OTP
-   * @param prefix - Text to add before the OTP
-   * @param postfix - Text to add after the OTP
+   * @param canonicalId - The ID of the configuration that is kept
+   * @param duplicateIds - The IDs of the configurations merged into it
    */
-  const copyOTP = (secret: string, prefix: string, postfix: string) => {
-    const otp = generateOTP(secret, prefix, postfix);
-    navigator.clipboard.writeText(otp);
+  const mergeDuplicates = (canonicalId: string, duplicateIds: string[]) => {
+    const canonical = otpConfigs.find((c) => c.id === canonicalId);
+    const duplicates = otpConfigs.filter((c) => c.id !== canonicalId && duplicateIds.includes(c.id));
+    if (!canonical || duplicates.length === 0) {
+      return;
+    }
+    const merged = mergeConfigs(canonical, duplicates);
+    recordRevision(canonical, merged, 'merge');
+    const deletedAt = Date.now();
+    const trashed = duplicates.map((config) => ({ config, deletedAt, position: otpConfigs.indexOf(config) }));
+    setOtpConfigs((prevConfigs) =>
+      prevConfigs
+        .filter((c) => !duplicates.some((duplicate) => duplicate.id === c.id))
+        .map((c) => (c.id === canonicalId ? merged : c))
+    );
+    setTrash((prevTrash) => [...trashed, ...prevTrash]);
     toast({
-      title: 'OTP Copied',
-      description: 'OTP copied to clipboard.',
+      title: 'Success',
+      description: duplicates.length === 1
+        ? `"${duplicates[0].accountName}" was merged into "${merged.accountName}" and moved to the trash.`
+        : `${duplicates.length} duplicates were merged into "${merged.accountName}" and moved to the trash.`,
     });
   };
 
   /**
-   * Refreshes and copies an OTP code.
-   * Generates a new OTP, copies it to the clipboard, and displays a success message.
+   * Moves a deleted OTP configuration from the trash back to its position in the
+   * manual order. If another configuration has taken its ID in the meantime (e.g.
+   * through an import), it is restored with a new ID, and its revisions move with it.
    * 
-   * @param secret - The secret key used to generate the OTP
-   * @param prefix - Text to add before the OTP
-   * @param postfix - Text to add after the OTP
+   * @param id - The ID of the deleted configuration
    */
-  const refreshOTP = (secret: string, prefix: string, postfix: string) => {
-    const otp = generateOTP(secret, prefix, postfix);
-    navigator.clipboard.writeText(otp);
+  const restoreConfig = (id: string) => {
+    // Read through the refs, since the toast's undo action was created before the deletion rendered
+    const entry = trashRef.current.find((e) => e.config.id === id);
+    if (!entry) {
+      return;
+    }
+    const config = otpConfigsRef.current.some((c) => c.id === id)
+      ? { ...entry.config, id: Math.random().toString(36).substring(7) }
+      : entry.config;
+    setTrash((prevTrash) => prevTrash.filter((e) => e.config.id !== id));
+    setOtpConfigs((prevConfigs) => {
+      const position = Math.min(entry.position, prevConfigs.length);
+      return [...prevConfigs.slice(0, position), config, ...prevConfigs.slice(position)];
+    });
+    if (config.id !== id) {
+      setRevisions((prevRevisions) => rekeyTrashRevisions(prevRevisions, entry, config.id));
+    }
     toast({
-      title: 'OTP Refreshed and Copied',
-      description: 'New OTP copied to clipboard.',
+      title: 'Success',
+      description: `"${entry.config.accountName}" was restored.`,
+    });
+  };
+
+  /**
+   * Permanently deletes an OTP configuration from the trash, along with its
+   * revisions and the time steps the verifier remembers for it.
+   * 
+   * @param id - The ID of the deleted configuration
+   */
+  const purgeConfig = (id: string) => {
+    setTrash((prevTrash) => prevTrash.filter((entry) => entry.config.id !== id));
+    forgetRevisions([id]);
+    clearUsedSteps(id);
+  };
+
+  /**
+   * Permanently deletes all OTP configurations in the trash.
+   */
+  const emptyTrash = () => {
+    trash.forEach((entry) => clearUsedSteps(entry.config.id));
+    forgetRevisions(trash.map((entry) => entry.config.id));
+    setTrash([]);
+  };
+
+  /**
+   * Forgets the revisions of permanently deleted configurations, which hold their old secret keys.
+   * 
+   * @param ids - The IDs of the configurations
+   */
+  const forgetRevisions = (ids: string[]) => {
+    setRevisions((prevRevisions) => {
+      const rest = { ...prevRevisions };
+      ids.forEach((id) => delete rest[id]);
+      return rest;
+    });
+  };
+
+  /**
+   * Moves an OTP configuration to the position of another one in the manual order,
+   * which is saved with the configurations and kept in exports.
+   * 
+   * @param id - The ID of the configuration to move
+   * @param targetId - The ID of the configuration whose position it takes
+   */
+  const moveConfig = (id: string, targetId: string) => {
+    setOtpConfigs((prevConfigs) => moveConfigInOrder(prevConfigs, id, targetId));
+  };
+
+  /**
+   * Pins an OTP configuration to the top of the grid, or unpins it if it is pinned.
+   * 
+   * @param id - The ID of the configuration to pin or unpin
+   */
+  const togglePinned = (id: string) => {
+    setOtpConfigs((prevConfigs) =>
+      prevConfigs.map((c) => (c.id === id ? { ...c, pinned: !c.pinned || undefined } : c))
+    );
+  };
+
+  /**
+   * Records that a code of a configuration was just copied, for sorting by recent use.
+   * 
+   * @param id - The ID of the configuration that was used
+   */
+  const markUsed = (id: string) => {
+    const now = Date.now();
+    setOtpConfigs((prevConfigs) => prevConfigs.map((c) => (c.id === id ? { ...c, lastUsedAt: now } : c)));
+  };
+
+  /**
+   * Advances the counter of a configuration whose token type has a manual counter (e.g. HOTP).
+   * The new counter value is persisted with the configuration so the same
+   * code is never shown twice, even across sessions.
+   * 
+   * @param id - The ID of the configuration to advance
+   */
+  const advanceCounter = (id: string) => {
+    setOtpConfigs((prevConfigs) =>
+      prevConfigs.map((c) =>
+        c.id === id && TokenTypeRegistry.find(c.type)?.manualCounter ? { ...c, counter: (c.counter ?? 0) + 1 } : c
+      )
+    );
+  };
+
+  /**
+   * Verifies a code typed by someone else against a configuration whose token type
+   * maps to RFC 6238 parameters (e.g. TOTP).
+   * The code is checked without the configuration's prefix and postfix, at the
+   * drift-corrected time plus the configuration's own time offset. With replay
+   * protection, codes for already accepted time steps are rejected and each newly
+   * accepted step is remembered.
+   * 
+   * @param config - The configuration to verify against
+   * @param token - The code to verify
+   * @param options - The skew window and whether replay protection is enabled
+   * @returns A promise that resolves to the verification result
+   * @throws Error for token types that cannot be verified
+   */
+  const verifyOTP = async (config: OTPConfig, token: string, options: VerifyOptions): Promise<TOTPVerifyResult> => {
+    const definition = TokenTypeRegistry.get(config.type);
+    if (!definition.toTOTPParams) {
+      throw new Error(`${definition.label} configurations cannot be verified.`);
+    }
+
+    const result = await OTPService.verifyTOTP({
+      ...definition.toTOTPParams(config),
+      token: token.trim(),
+      timestamp: getConfigTime(config),
+      window: options.window,
+      usedSteps: options.replayProtection ? usedSteps[config.id] : [],
     });
+
+    const acceptedStep = result.step;
+    if (options.replayProtection && result.valid && acceptedStep !== null) {
+      setUsedSteps((prevUsedSteps) => ({
+        ...prevUsedSteps,
+        [config.id]: [...(prevUsedSteps[config.id] ?? []), acceptedStep].slice(-MAX_USED_STEPS),
+      }));
+    }
+
+    return result;
   };
 
   /**
-   * Imports OTP configurations from a JSON file.
-   * Updates the state with the imported configurations.
+   * Forgets the time steps already accepted by the verifier for a configuration,
+   * so its codes can be verified again.
    * 
-   * @param configs - Array of OTP configurations to import
+   * @param id - The ID of the configuration
    */
-  const importConfigs = (configs: OTPConfig[]) => {
+  const clearUsedSteps = (id: string) => {
+    setUsedSteps((prevUsedSteps) => {
+      const { [id]: _removed, ...rest } = prevUsedSteps;
+      return rest;
+    });
+  };
+
+  /**
+   * Computes the response to a challenge with the provided configuration's token type (e.g. OCRA).
+   * The response (formatted with the configuration's template) is copied to the clipboard. If the
+   * counter was part of the input, the counter is advanced and persisted afterwards.
+   * The use is recorded for sorting by recent use.
+   * 
+   * @param config - The configuration to respond with
+   * @param challenge - The challenge shown by the service
+   * @returns A promise that resolves to the response, or null if it could not be computed
+   */
+  const respondToChallenge = async (config: OTPConfig, challenge: string): Promise<string | null> => {
+    try {
+      const definition = TokenTypeRegistry.get(config.type);
+      if (!definition.respond) {
+        throw new Error(`${definition.label} configurations do not respond to challenges.`);
+      }
+      const { code, usedCounter } = await definition.respond(config, challenge, getConfigTime(config));
+      const response = formatOtp(config, code);
+
+      const now = Date.now();
+      setOtpConfigs((prevConfigs) =>
+        prevConfigs.map((c) =>
+          c.id === config.id ? { ...c, counter: usedCounter ? (c.counter ?? 0) + 1 : c.counter, lastUsedAt: now } : c
+        )
+      );
+
+      navigator.clipboard.writeText(response);
+      toast({
+        title: 'Response Copied',
+        description: 'Response copied to clipboard.',
+      });
+      return response;
+    } catch (error) {
+      LoggingService.error('Error computing challenge response:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to compute the response.',
+        variant: 'destructive',
+      });
+      return null;
+    }
+  };
+
+  /**
+   * Copies an OTP code to the clipboard.
+   * Generates the OTP for the provided configuration,
+   * copies it to the clipboard, records the use for sorting by recent use,
+   * and displays a success message.
+   * 
+   * @param config - The OTP configuration to copy a code for
+   */
+  const copyOTP = async (config: OTPConfig) => {
+    try {
+      const otp = await generateOTP(config);
+      navigator.clipboard.writeText(otp);
+      markUsed(config.id);
+      toast({
+        title: 'OTP Copied',
+        description: 'OTP copied to clipboard.',
+      });
+    } catch (error) {
+      LoggingService.error('Error generating OTP:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to generate OTP. Check the secret key.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  /**
+   * Refreshes and copies an OTP code.
+   * Generates a new OTP, copies it to the clipboard, records the use for sorting
+   * by recent use, and displays a success message.
+   * 
+   * @param config - The OTP configuration to refresh and copy a code for
+   */
+  const refreshOTP = async (config: OTPConfig) => {
+    try {
+      const otp = await generateOTP(config);
+      navigator.clipboard.writeText(otp);
+      markUsed(config.id);
+      toast({
+        title: 'OTP Refreshed and Copied',
+        description: 'New OTP copied to clipboard.',
+      });
+    } catch (error) {
+      LoggingService.error('Error generating OTP:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to generate OTP. Check the secret key.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  /**
+   * Re-measures the offset between the device clock and the server clock.
+   * The new offset is applied to all time-based codes immediately and reported
+   * in a toast notification.
+   */
+  const syncClock = async () => {
+    try {
+      const { offset } = await TimeService.measureOffset();
+      setClockOffset(offset);
+      toast({
+        title: 'Clock Synchronized',
+        description: `Device clock is off by ${(offset / 1000).toFixed(1)} seconds.`,
+      });
+    } catch (error) {
+      LoggingService.error('Error synchronizing clock:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to synchronize clock with the server.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  /**
+   * Sets the password of the encrypted storage and encrypts the configurations with it.
+   * Configurations stored in plaintext by earlier versions are migrated, moved into
+   * the encrypted storage and removed from local storage.
+   * 
+   * @param password - The password to encrypt with
+   * @throws Error if the password is too short, the storage has already been set up or a plaintext configuration is invalid
+   */
+  const createVault = async (password: string) => {
+    if (password.length < MIN_VAULT_PASSWORD_LENGTH) {
+      throw new Error(`The password must be at least ${MIN_VAULT_PASSWORD_LENGTH} characters long.`);
+    }
+    const repository = new SecureStorageRepository<StoredOTPConfig>(VAULT_KEY, password);
+    await repository.initialize();
+
+    const legacyConfigs = localStorage.getItem(LEGACY_CONFIGS_KEY);
+    const configs = legacyConfigs ? parseConfigDocument(JSON.parse(legacyConfigs)) : [];
+    await repository.saveAll(configs.map((config) => toStoredConfig(config)));
+    localStorage.removeItem(LEGACY_CONFIGS_KEY);
+
+    repositoryRef.current = repository;
+    passwordRef.current = password;
+    unreadableItemsRef.current = [];
     setOtpConfigs(configs);
+    setTrash([]);
+    setRevisions({});
+    setVaultStatus('unlocked');
+  };
+
+  /**
+   * Unlocks the encrypted storage and loads the configurations.
+   * Stored configurations that are invalid are skipped and reported, and kept in
+   * the storage as they are.
+   * 
+   * @param password - The password the storage was set up with
+   * @returns A promise that resolves to true if the storage was unlocked, false if the password is wrong or the storage cannot be read
+   */
+  const unlockVault = async (password: string): Promise<boolean> => {
+    const repository = new SecureStorageRepository<StoredOTPConfig>(VAULT_KEY, password);
+    if (!(await repository.verifyPassword())) {
+      return false;
+    }
+
+    try {
+      const {
+        configs,
+        trash: storedTrash,
+        revisions: storedRevisions,
+        unreadable,
+      } = fromStoredItems(await repository.getAll());
+      repositoryRef.current = repository;
+      passwordRef.current = password;
+      unreadableItemsRef.current = unreadable;
+      setOtpConfigs(configs);
+      setTrash(storedTrash.sort((a, b) => b.deletedAt - a.deletedAt));
+      setRevisions(storedRevisions);
+      setVaultStatus('unlocked');
+      if (unreadable.length > 0) {
+        toast({
+          title: 'Error',
+          description: unreadable.length === 1
+            ? 'One stored configuration is invalid and was skipped. It is kept in the storage unchanged.'
+            : `${unreadable.length} stored configurations are invalid and were skipped. They are kept in the storage unchanged.`,
+          variant: 'destructive',
+        });
+      }
+      return true;
+    } catch (error) {
+      LoggingService.error('Error loading configurations:', error);
+      toast({
+        title: 'Error',
+        description: `Failed to load the stored configurations: ${error instanceof Error ? error.message : 'unknown error.'}`,
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  /**
+   * Locks the encrypted storage, forgetting the password and the decrypted configurations.
+   */
+  const lockVault = () => {
+    repositoryRef.current = null;
+    passwordRef.current = '';
+    unreadableItemsRef.current = [];
+    setOtpConfigs([]);
+    setTrash([]);
+    setRevisions({});
+    setOtpCodes({});
+    setNextOtpCodes({});
+    setVaultStatus('locked');
+  };
+
+  /**
+   * Reads OTP configurations from a JSON file or an encrypted backup and checks
+   * them, without importing them yet, so that duplicates and replaced configurations
+   * can be confirmed first.
+   * Encrypted backups are decrypted with the password of the encrypted storage.
+   * Configurations written by earlier versions are migrated and all are validated.
+   * Secret keys are normalized to canonical base32 (secrets of token types that use
+   * them as text, e.g. mOTP, are kept as they are). An imported configuration with
+   * the ID of an existing one keeps the existing prefix, postfix, PIN, format,
+   * variables, notes and custom fields where it has none, since plain exports leave
+   * them out; it is reported with the duplicates, since importing it replaces the
+   * existing one. If the backup cannot be decrypted or any configuration is invalid,
+   * has an unknown token type, an invalid secret key or settings its token type
+   * rejects, the error is reported and nothing is imported.
+   * 
+   * @param data - The parsed contents of an export file or encrypted backup
+   * @returns The checked configurations with the duplicates among them, or null if they cannot be imported
+   */
+  const prepareImport = async (data: unknown): Promise<ImportPlan | null> => {
+    let contents = data;
+    if (isEncryptedBackup(data)) {
+      try {
+        contents = JSON.parse(
+          await EncryptionService.decrypt(data.encryptedData, passwordRef.current, data.salt, data.iv)
+        );
+      } catch (error) {
+        LoggingService.error('Error decrypting backup:', error);
+        toast({
+          title: 'Error',
+          description: 'Failed to decrypt the backup. It was made with a different password.',
+          variant: 'destructive',
+        });
+        return null;
+      }
+    }
+
+    let configs: OTPConfig[];
+    try {
+      configs = parseConfigDocument(contents);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: `Failed to import configurations: ${error instanceof Error ? error.message : 'invalid file.'}`,
+        variant: 'destructive',
+      });
+      return null;
+    }
+
+    const normalizedConfigs: OTPConfig[] = [];
+    for (const imported of configs) {
+      const existing = otpConfigs.find((c) => c.id === imported.id);
+      const config = existing ? keepStrippedFields(imported, existing) : imported;
+      try {
+        normalizedConfigs.push(
+          TokenTypeRegistry.get(config.type).secretFormat === 'text'
+            ? config
+            : { ...config, secretKey: normalizeSecret(config.secretKey).secret }
+        );
+      } catch (error) {
+        toast({
+          title: 'Error',
+          description: `Failed to import "${config.accountName}": ${error instanceof Error ? error.message : 'invalid secret key.'}`,
+          variant: 'destructive',
+        });
+        return null;
+      }
+    }
+
+    // Check the settings the way the editor does, e.g. that Mobile-OTP accounts have a PIN
+    for (const config of normalizedConfigs) {
+      try {
+        TokenTypeRegistry.get(config.type).validate?.(config);
+      } catch (error) {
+        toast({
+          title: 'Error',
+          description: `Failed to import "${config.accountName}": ${error instanceof Error ? error.message : 'invalid settings.'}`,
+          variant: 'destructive',
+        });
+        return null;
+      }
+    }
+
+    // Existing configurations an imported one with the same ID replaces are reported as replaced, not compared
+    const keptConfigs = otpConfigs.filter((c) => !normalizedConfigs.some((config) => config.id === c.id));
+    return {
+      configs: normalizedConfigs,
+      duplicates: normalizedConfigs
+        .map((config, index) => {
+          const replaced = otpConfigs.find((c) => c.id === config.id);
+          const replacedMatches =
+            replaced && diffConfigs(replaced, config).length > 0
+              ? [{ config: replaced, reasons: ['id' as const, ...getDuplicateReasons(config, replaced)] }]
+              : [];
+          return {
+            config,
+            matches: [...replacedMatches, ...findDuplicates(config, [...keptConfigs, ...normalizedConfigs.slice(0, index)])],
+          };
+        })
+        .filter((warning) => warning.matches.length > 0),
+    };
+  };
+
+  /**
+   * Imports checked OTP configurations, adding them after the existing ones.
+   * An imported configuration with the ID of an existing one replaces it in place;
+   * if they differ, the existing version is kept as a revision and moved to the
+   * trash under a new ID, with a copy of its revisions, so it can still be restored
+   * as a separate account.
+   * 
+   * @param plan - The configurations checked by prepareImport
+   */
+  const applyImport = (plan: ImportPlan) => {
+    const deletedAt = Date.now();
+    const replacedEntries: TrashedConfig[] = [];
+    const replacements: { previous: OTPConfig; config: OTPConfig; trashedId: string }[] = [];
+    for (const config of plan.configs) {
+      const position = otpConfigs.findIndex((c) => c.id === config.id);
+      if (position === -1 || diffConfigs(otpConfigs[position], config).length === 0) {
+        continue;
+      }
+      const trashedId = Math.random().toString(36).substring(7);
+      replacements.push({ previous: otpConfigs[position], config, trashedId });
+      replacedEntries.push({ config: { ...otpConfigs[position], id: trashedId }, deletedAt, position });
+    }
+    // Copy the histories before the import revisions are added, which only belong to the imported versions
+    setRevisions((prevRevisions) => ({
+      ...prevRevisions,
+      ...Object.fromEntries(
+        replacements
+          .filter(({ previous }) => prevRevisions[previous.id])
+          .map(({ previous, trashedId }) => [trashedId, prevRevisions[previous.id]])
+      ),
+    }));
+    replacements.forEach(({ previous, config }) => recordRevision(previous, config, 'import'));
+    setOtpConfigs((prevConfigs) => [
+      ...prevConfigs.map((c) => plan.configs.find((config) => config.id === c.id) ?? c),
+      ...plan.configs.filter((config) => !prevConfigs.some((c) => c.id === config.id)),
+    ]);
+    if (replacedEntries.length > 0) {
+      setTrash((prevTrash) => [...replacedEntries, ...prevTrash]);
+    }
+
+    const messages = [`${plan.configs.length === 1 ? '1 configuration' : `${plan.configs.length} configurations`} imported.`];
+    if (replacedEntries.length > 0) {
+      messages.push(replacedEntries.length === 1
+        ? 'The previous version of the replaced configuration was moved to the trash.'
+        : `The previous versions of ${replacedEntries.length} replaced configurations were moved to the trash.`);
+    }
+    if (plan.duplicates.some((warning) => warning.matches.some((match) => !match.reasons.includes('id')))) {
+      messages.push('Merge the duplicates under Duplicates in the sidebar.');
+    }
     toast({
       title: 'Success',
-      description: 'Configurations imported successfully.',
+      description: messages.join(' '),
     });
   };
 
   /**
-   * Exports OTP configurations to a JSON file.
-   * Creates a downloadable file containing all the user's OTP configurations.
+   * Exports OTP configurations to a downloadable file.
+   * Encrypted backups contain everything and are encrypted with the password of the
+   * encrypted storage. Plain exports leave out prefixes, postfixes, formats and
+   * variables, which often hold static passwords, PINs, and notes and custom
+   * fields, which often hold recovery details.
+   * 
+   * @param encrypted - Whether to export an encrypted backup
    */
-  const exportConfigs = () => {
-    const jsonString = JSON.stringify(otpConfigs);
-    const blob = new Blob([jsonString], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'otpConfigs.json';
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  const exportConfigs = async (encrypted: boolean) => {
+    if (encrypted) {
+      const result = await EncryptionService.encrypt(JSON.stringify(toConfigDocument(otpConfigs)), passwordRef.current);
+      const backup: EncryptedBackup = { format: ENCRYPTED_BACKUP_FORMAT, ...result };
+      downloadFile(JSON.stringify(backup), 'otpConfigs.encrypted.json');
+      return;
+    }
+
+    const plainConfigs = otpConfigs.map(
+      ({ pin, template, variables, notes, customFields, ...config }): OTPConfig => ({ ...config, prefix: '', postfix: '' })
+    );
+    downloadFile(JSON.stringify(toConfigDocument(plainConfigs)), 'otpConfigs.json');
   };
 
   // Create the context value object with all state and methods
   const contextValue: OTPContextType = {
     otpConfigs,
+    trash,
+    revisions,
+    trashRetentionDays,
+    setTrashRetentionDays,
+    vaultStatus,
+    createVault,
+    unlockVault,
+    lockVault,
     remainingTimes,
+    otpCodes,
+    nextOtpCodes,
+    nextCodeThreshold,
+    setNextCodeThreshold,
+    sortOrder,
+    setSortOrder,
+    clockOffset,
+    syncClock,
     isOtpVisible,
     toggleOtpVisibility,
     addConfig,
     updateConfig,
+    revertConfig,
     deleteConfig,
+    mergeDuplicates,
+    restoreConfig,
+    purgeConfig,
+    emptyTrash,
+    moveConfig,
+    togglePinned,
     copyOTP,
     refreshOTP,
+    advanceCounter,
+    verifyOTP,
+    clearUsedSteps,
+    respondToChallenge,
     generateOTP,
-    importConfigs,
+    prepareImport,
+    applyImport,
     exportConfigs,
   };
 
@@ -0,0 +1,66 @@
+/**
+ * Base32 encoding and decoding (RFC 4648) for OTP secret keys.
+ * Implemented without dependencies so it behaves identically in the browser, Node and workers.
+ */
+
+/** The RFC 4648 base32 alphabet */
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Decodes a base32 string into raw bytes.
+ * Decoding is case-insensitive and ignores trailing '=' padding.
+ *
+ * @param input - The base32-encoded string
+ * @returns The decoded bytes
+ * @throws Error if the input contains characters outside the base32 alphabet
+ */
+export function decodeBase32(input: string): Uint8Array {
+  const cleaned = input.toUpperCase().replace(/=+$/, '');
+  const bytes = new Uint8Array(Math.floor((cleaned.length * 5) / 8));
+
+  let buffer = 0;
+  let bitCount = 0;
+  let index = 0;
+
+  for (const char of cleaned) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value === -1) {
+      throw new Error(`Invalid base32 character: "${char}"`);
+    }
+    buffer = (buffer << 5) | value;
+    bitCount += 5;
+    if (bitCount >= 8) {
+      bitCount -= 8;
+      bytes[index++] = (buffer >>> bitCount) & 0xff;
+    }
+  }
+
+  return bytes;
+}
+
+/**
+ * Encodes raw bytes as an unpadded base32 string.
+ *
+ * @param bytes - The bytes to encode
+ * @returns The base32-encoded string
+ */
+export function encodeBase32(bytes: Uint8Array): string {
+  let output = '';
+  let buffer = 0;
+  let bitCount = 0;
+
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bitCount += 8;
+    while (bitCount >= 5) {
+      bitCount -= 5;
+      output += BASE32_ALPHABET[(buffer >>> bitCount) & 0x1f];
+    }
+  }
+
+  if (bitCount > 0) {
+    output += BASE32_ALPHABET[(buffer << (5 - bitCount)) & 0x1f];
+  }
+
+  return output;
+}
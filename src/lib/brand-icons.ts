@@ -0,0 +1,314 @@
+/**
+ * Offline brand icons for accounts: a curated set of Simple Icons (CC0) for the
+ * services people commonly protect with one-time passwords, matched against the
+ * issuer or account name of a configuration. Icons are bundled at build time, so
+ * nothing is fetched when cards are shown.
+ *
+ * To add a brand, import its icon from 'simple-icons' and add it to BRANDS,
+ * with aliases for other names the service is known by.
+ */
+import {
+  si1password,
+  siAirbnb,
+  siApple,
+  siAtlassian,
+  siAuth0,
+  siBackblaze,
+  siBattledotnet,
+  siBinance,
+  siBitbucket,
+  siBitwarden,
+  siBluesky,
+  siCisco,
+  siCloudflare,
+  siCodeberg,
+  siCoinbase,
+  siDashlane,
+  siDatadog,
+  siDigitalocean,
+  siDiscord,
+  siDocker,
+  siDropbox,
+  siEbay,
+  siEpicgames,
+  siEvernote,
+  siFacebook,
+  siFigma,
+  siFortinet,
+  siGandi,
+  siGithub,
+  siGitlab,
+  siGodaddy,
+  siGoogle,
+  siHackerone,
+  siHashicorp,
+  siHetzner,
+  siHubspot,
+  siInstagram,
+  siJetbrains,
+  siJira,
+  siKickstarter,
+  siLastpass,
+  siMailchimp,
+  siMastodon,
+  siMega,
+  siMongodb,
+  siNamecheap,
+  siNetlify,
+  siNextcloud,
+  siNotion,
+  siNpm,
+  siOkta,
+  siOvh,
+  siPatreon,
+  siPaypal,
+  siPlaystation,
+  siProton,
+  siPypi,
+  siReddit,
+  siRevolut,
+  siRubygems,
+  siSentry,
+  siShopify,
+  siSignal,
+  siSnapchat,
+  siSourceforge,
+  siSteam,
+  siStripe,
+  siSynology,
+  siTailscale,
+  siTelegram,
+  siTiktok,
+  siTrello,
+  siTwitch,
+  siUber,
+  siUbisoft,
+  siVercel,
+  siVultr,
+  siWhatsapp,
+  siWise,
+  siWordpress,
+  siX,
+  siZoho,
+  siZoom,
+} from 'simple-icons';
+import type { SimpleIcon } from 'simple-icons';
+import type { OTPConfig } from '@/lib/otp-config';
+
+/** Value of OTPConfig.icon for accounts that should not show a brand icon */
+export const NO_ICON = 'none';
+
+/**
+ * A bundled brand icon.
+ */
+export interface BrandIcon {
+  /** ID stored in OTPConfig.icon, e.g. 'github' */
+  id: string;
+  /** Name of the brand, e.g. 'GitHub' */
+  title: string;
+  /** Brand color as a hex string without '#' */
+  color: string;
+  /** SVG path of the icon in a 24x24 view box */
+  path: string;
+}
+
+/**
+ * Bundled brands with the other names they are matched by.
+ */
+const BRANDS: [SimpleIcon, string[]][] = [
+  [si1password, ['onepassword']],
+  [siAirbnb, []],
+  [siApple, ['appleid', 'icloud']],
+  [siAtlassian, []],
+  [siAuth0, []],
+  [siBackblaze, []],
+  [siBattledotnet, ['battlenet', 'blizzard']],
+  [siBinance, []],
+  [siBitbucket, []],
+  [siBitwarden, []],
+  [siBluesky, ['bsky']],
+  [siCisco, []],
+  [siCloudflare, []],
+  [siCodeberg, []],
+  [siCoinbase, []],
+  [siDashlane, []],
+  [siDatadog, []],
+  [siDigitalocean, []],
+  [siDiscord, []],
+  [siDocker, ['dockerhub']],
+  [siDropbox, []],
+  [siEbay, []],
+  [siEpicgames, ['epic']],
+  [siEvernote, []],
+  [siFacebook, ['meta']],
+  [siFigma, []],
+  [siFortinet, ['forticlient', 'fortitoken']],
+  [siGandi, []],
+  [siGithub, []],
+  [siGitlab, []],
+  [siGodaddy, []],
+  [siGoogle, ['gmail', 'googleworkspace', 'gsuite']],
+  [siHackerone, []],
+  [siHashicorp, ['terraform']],
+  [siHetzner, []],
+  [siHubspot, []],
+  [siInstagram, []],
+  [siJetbrains, []],
+  [siJira, []],
+  [siKickstarter, []],
+  [siLastpass, []],
+  [siMailchimp, []],
+  [siMastodon, []],
+  [siMega, ['meganz']],
+  [siMongodb, []],
+  [siNamecheap, []],
+  [siNetlify, []],
+  [siNextcloud, []],
+  [siNotion, []],
+  [siNpm, ['npmjs']],
+  [siOkta, []],
+  [siOvh, ['ovhcloud']],
+  [siPatreon, []],
+  [siPaypal, []],
+  [siPlaystation, ['psn', 'playstationnetwork']],
+  [siProton, ['protonmail', 'protonvpn']],
+  [siPypi, []],
+  [siReddit, []],
+  [siRevolut, []],
+  [siRubygems, []],
+  [siSentry, []],
+  [siShopify, []],
+  [siSignal, []],
+  [siSnapchat, []],
+  [siSourceforge, []],
+  [siSteam, ['steamguard', 'valve']],
+  [siStripe, []],
+  [siSynology, []],
+  [siTailscale, []],
+  [siTelegram, []],
+  [siTiktok, []],
+  [siTrello, []],
+  [siTwitch, []],
+  [siUber, []],
+  [siUbisoft, []],
+  [siVercel, []],
+  [siVultr, []],
+  [siWhatsapp, []],
+  [siWise, ['transferwise']],
+  [siWordpress, []],
+  [siX, ['twitter']],
+  [siZoho, []],
+  [siZoom, []],
+];
+
+/**
+ * Reduces a name to lowercase letters and digits for matching.
+ *
+ * @param name - The name to normalize
+ * @returns The normalized name, e.g. "battlenet" for "Battle.net"
+ */
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/** The bundled icons, sorted by title */
+export const BRAND_ICONS: BrandIcon[] = BRANDS
+  .map(([icon]) => ({ id: icon.slug, title: icon.title, color: icon.hex, path: icon.path }))
+  .sort((a, b) => a.title.localeCompare(b.title));
+
+/** Icons keyed by every name they are matched by: slug, title and aliases */
+const ICONS_BY_NAME = new Map<string, BrandIcon>(
+  BRANDS.flatMap(([icon, aliases]) => {
+    const brand = BRAND_ICONS.find((candidate) => candidate.id === icon.slug)!;
+    return [icon.slug, normalizeName(icon.title), ...aliases].map((name): [string, BrandIcon] => [name, brand]);
+  })
+);
+
+/**
+ * Gets a bundled icon by its ID.
+ *
+ * @param id - The icon ID, e.g. 'github'
+ * @returns The icon, or undefined if no such icon is bundled
+ */
+export function findBrandIcon(id: string): BrandIcon | undefined {
+  return BRAND_ICONS.find((icon) => icon.id === id);
+}
+
+/**
+ * Finds the icon for an issuer or account name.
+ * Matches the whole name (e.g. "Battle.net"), any word in it (e.g. "gmail" in
+ * "jane@gmail.com"), or the start of it (e.g. "Google Workspace").
+ * Single-letter brands such as X only match the whole name.
+ *
+ * @param name - The issuer or account name
+ * @returns The matching icon, or undefined if no bundled brand matches
+ */
+export function matchBrandIcon(name: string): BrandIcon | undefined {
+  const normalized = normalizeName(name);
+  if (!normalized) {
+    return undefined;
+  }
+
+  const exact = ICONS_BY_NAME.get(normalized);
+  if (exact) {
+    return exact;
+  }
+
+  for (const word of name.toLowerCase().split(/[^a-z0-9]+/)) {
+    const icon = word.length > 1 ? ICONS_BY_NAME.get(word) : undefined;
+    if (icon) {
+      return icon;
+    }
+  }
+
+  for (const [key, icon] of Array.from(ICONS_BY_NAME)) {
+    if (key.length >= 5 && normalized.startsWith(key)) {
+      return icon;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Gets the icon shown for a configuration: the manually chosen icon if there is
+ * one, otherwise the icon matching its issuer or, failing that, its account name.
+ *
+ * @param config - The configuration
+ * @returns The icon, or undefined to show a monogram instead
+ */
+export function resolveBrandIcon(config: Pick<OTPConfig, 'icon' | 'issuer' | 'accountName'>): BrandIcon | undefined {
+  if (config.icon === NO_ICON) {
+    return undefined;
+  }
+  if (config.icon) {
+    return findBrandIcon(config.icon);
+  }
+  return (config.issuer ? matchBrandIcon(config.issuer) : undefined) ?? matchBrandIcon(config.accountName);
+}
+
+/**
+ * Picks black or white, whichever is more readable on a background color.
+ *
+ * @param color - The background color as a hex string without '#'
+ * @returns '#000000' for light backgrounds, '#FFFFFF' for dark ones
+ */
+export function getContrastColor(color: string): string {
+  const [r, g, b] = [0, 2, 4].map((offset) => parseInt(color.substring(offset, offset + 2), 16));
+  // Perceived brightness (ITU-R BT.601)
+  return (r * 299 + g * 587 + b * 114) / 1000 > 150 ? '#000000' : '#FFFFFF';
+}
+
+/**
+ * Picks a stable color for the monogram of an account without a brand icon,
+ * so the same name always gets the same color.
+ *
+ * @param name - The issuer or account name
+ * @returns A CSS hsl() color
+ */
+export function getMonogramColor(name: string): string {
+  let hash = 0;
+  for (const char of name) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return `hsl(${Math.abs(hash) % 360}, 55%, 45%)`;
+}
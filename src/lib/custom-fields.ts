@@ -0,0 +1,67 @@
+/**
+ * Custom fields: named values recorded with an account, such as the recovery
+ * email, the admin who owns the account or the enrolled backup phone. Like notes,
+ * they are stored encrypted with the secret key. The type of a field decides how
+ * its value is shown: secret values are masked, emails, phone numbers and URLs
+ * are links.
+ */
+import type { CustomField } from '@/lib/otp-config';
+
+/** Type of the custom fields added in the editor */
+export const DEFAULT_CUSTOM_FIELD_TYPE: CustomField['type'] = 'text';
+
+/** Labels of the custom field types, in the order they are offered */
+export const CUSTOM_FIELD_TYPE_LABELS: { [type in CustomField['type']]: string } = {
+  text: 'Text',
+  secret: 'Secret',
+  email: 'Email',
+  phone: 'Phone',
+  url: 'URL',
+};
+
+/**
+ * Cleans up the edited custom fields: trims names and drops empty rows, with
+ * neither a name nor a value.
+ *
+ * @param fields - The edited fields
+ * @returns The fields in the order entered, or undefined if there are none
+ * @throws Error if a field has a value but no name
+ */
+export function normalizeCustomFields(fields: CustomField[]): CustomField[] | undefined {
+  const result: CustomField[] = [];
+  for (const field of fields) {
+    const name = field.name.trim();
+    if (!name && !field.value.trim()) {
+      continue;
+    }
+    if (!name) {
+      throw new Error('Every custom field needs a name.');
+    }
+    result.push({ ...field, name });
+  }
+  return result.length > 0 ? result : undefined;
+}
+
+/**
+ * Gets the link a custom field's value opens, for field types that are links.
+ * URLs are only linked if they use http or https.
+ *
+ * @param field - The field
+ * @returns The link, or undefined if the value is not shown as a link
+ */
+export function getCustomFieldHref(field: CustomField): string | undefined {
+  const value = field.value.trim();
+  if (!value) {
+    return undefined;
+  }
+  switch (field.type) {
+    case 'email':
+      return `mailto:${value}`;
+    case 'phone':
+      return `tel:${value.replace(/[^\d+]/g, '')}`;
+    case 'url':
+      return /^https?:\/\//i.test(value) ? value : undefined;
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * Detection and merging of duplicate accounts. Two accounts are duplicates if they
+ * have the same secret key (they produce the same codes), or the same issuer and
+ * account name (they most likely sign in to the same account, e.g. after
+ * re-scanning a QR code). Merging keeps one canonical account and folds the tags,
+ * notes, custom fields and other metadata of the others into it.
+ */
+import type { CustomField, OTPConfig } from '@/lib/otp-config';
+import { isSameLabel, normalizeTags } from '@/lib/tags';
+
+/**
+ * Why two accounts are considered duplicates.
+ * 'id' is only reported for imported accounts, which replace the existing account
+ * with their ID instead of being added next to it.
+ */
+export type DuplicateReason = 'secret' | 'identity' | 'id';
+
+/** Labels of the duplicate reasons */
+export const DUPLICATE_REASON_LABELS: { [reason in DuplicateReason]: string } = {
+  secret: 'Same secret key',
+  identity: 'Same issuer and account name',
+  id: 'Same account, replaced by the import',
+};
+
+/**
+ * An existing account that duplicates another one.
+ */
+export interface DuplicateMatch {
+  /** The existing account */
+  config: OTPConfig;
+  /** Why it is a duplicate */
+  reasons: DuplicateReason[];
+}
+
+/**
+ * A set of accounts that are all duplicates of each other, directly or through
+ * another account of the set.
+ */
+export interface DuplicateGroup {
+  /** The accounts, in their manual order */
+  configs: OTPConfig[];
+  /** Why accounts of the set are duplicates */
+  reasons: DuplicateReason[];
+}
+
+/** The properties duplicates are detected by */
+type DuplicateKeys = Pick<OTPConfig, 'secretKey' | 'issuer' | 'accountName'>;
+
+/**
+ * A new account, being added or imported, and the accounts it duplicates.
+ */
+export interface DuplicateWarning {
+  /** The new account */
+  config: DuplicateKeys & Pick<OTPConfig, 'icon'>;
+  /** The accounts it duplicates */
+  matches: DuplicateMatch[];
+}
+
+/**
+ * Builds the key accounts with the same issuer and account name share.
+ *
+ * @param config - The account
+ * @returns The key, or null for accounts without an account name
+ */
+function getIdentityKey(config: DuplicateKeys): string | null {
+  const accountName = config.accountName.trim().toLocaleLowerCase();
+  if (!accountName) {
+    return null;
+  }
+  return `${(config.issuer ?? '').trim().toLocaleLowerCase()}\u0000${accountName}`;
+}
+
+/**
+ * Checks why two accounts are duplicates.
+ *
+ * @param a - The first account
+ * @param b - The second account
+ * @returns The reasons, or an empty array if they are not duplicates
+ */
+export function getDuplicateReasons(a: DuplicateKeys, b: DuplicateKeys): DuplicateReason[] {
+  const reasons: DuplicateReason[] = [];
+  if (a.secretKey.trim() && a.secretKey.trim() === b.secretKey.trim()) {
+    reasons.push('secret');
+  }
+  const identityKey = getIdentityKey(a);
+  if (identityKey !== null && identityKey === getIdentityKey(b)) {
+    reasons.push('identity');
+  }
+  return reasons;
+}
+
+/**
+ * Finds the existing accounts that a new or edited account duplicates.
+ *
+ * @param candidate - The new or edited account
+ * @param configs - The existing accounts; an account with the candidate's ID is skipped
+ * @returns The duplicated accounts, in their manual order
+ */
+export function findDuplicates(candidate: DuplicateKeys & { id?: string }, configs: OTPConfig[]): DuplicateMatch[] {
+  return configs
+    .filter((config) => config.id !== candidate.id)
+    .map((config) => ({ config, reasons: getDuplicateReasons(candidate, config) }))
+    .filter((match) => match.reasons.length > 0);
+}
+
+/**
+ * Groups the accounts that are duplicates of each other.
+ *
+ * @param configs - The accounts
+ * @returns The sets of two or more duplicates, in the manual order of their first accounts
+ */
+export function findDuplicateGroups(configs: OTPConfig[]): DuplicateGroup[] {
+  // Union-find over the accounts: duplicates end up with the same root
+  const parents = configs.map((_, index) => index);
+  const findRoot = (index: number): number => {
+    while (parents[index] !== index) {
+      parents[index] = parents[parents[index]];
+      index = parents[index];
+    }
+    return index;
+  };
+  const reasonsByRoot = new Map<number, Set<DuplicateReason>>();
+  const pairReasons: { a: number; b: number; reasons: DuplicateReason[] }[] = [];
+  for (let a = 0; a < configs.length; a++) {
+    for (let b = a + 1; b < configs.length; b++) {
+      const reasons = getDuplicateReasons(configs[a], configs[b]);
+      if (reasons.length > 0) {
+        parents[findRoot(b)] = findRoot(a);
+        pairReasons.push({ a, b, reasons });
+      }
+    }
+  }
+  for (const { a, reasons } of pairReasons) {
+    const root = findRoot(a);
+    const rootReasons = reasonsByRoot.get(root) ?? new Set<DuplicateReason>();
+    reasons.forEach((reason) => rootReasons.add(reason));
+    reasonsByRoot.set(root, rootReasons);
+  }
+
+  const groups = new Map<number, OTPConfig[]>();
+  configs.forEach((config, index) => {
+    const root = findRoot(index);
+    if (reasonsByRoot.has(root)) {
+      groups.set(root, [...(groups.get(root) ?? []), config]);
+    }
+  });
+  return Array.from(groups.entries()).map(([root, group]) => ({
+    configs: group,
+    reasons: (['secret', 'identity'] as const).filter((reason) => reasonsByRoot.get(root)?.has(reason)),
+  }));
+}
+
+/**
+ * Merges duplicates into the account that is kept.
+ * The kept account's secret key, token settings, prefix, postfix and format are
+ * left as they are. Tags, custom fields and variables are combined (the kept
+ * account's variables win), distinct notes are appended, and an issuer, folder or
+ * icon the kept account lacks is taken from the first duplicate that has one. The
+ * result is pinned if any of the accounts was, and keeps the latest use.
+ *
+ * @param canonical - The account that is kept
+ * @param duplicates - The accounts merged into it
+ * @returns The merged account, with the kept account's ID
+ */
+export function mergeConfigs(canonical: OTPConfig, duplicates: OTPConfig[]): OTPConfig {
+  const all = [canonical, ...duplicates];
+  const firstSet = <K extends 'issuer' | 'folder' | 'icon'>(key: K): OTPConfig[K] =>
+    all.find((config) => config[key])?.[key];
+
+  const notes: string[] = [];
+  for (const note of all.map((config) => config.notes?.trim())) {
+    if (note && !notes.includes(note)) {
+      notes.push(note);
+    }
+  }
+
+  const customFields: CustomField[] = [];
+  for (const field of all.flatMap((config) => config.customFields ?? [])) {
+    if (!customFields.some((existing) => isSameLabel(existing.name, field.name) && existing.value === field.value)) {
+      customFields.push(field);
+    }
+  }
+
+  const variables = Object.assign({}, ...[...all].reverse().map((config) => config.variables ?? {}));
+  const lastUses = all.map((config) => config.lastUsedAt).filter((time): time is number => time !== undefined);
+
+  return {
+    ...canonical,
+    issuer: firstSet('issuer'),
+    folder: firstSet('folder'),
+    icon: firstSet('icon'),
+    tags: normalizeTags(all.flatMap((config) => config.tags ?? [])),
+    notes: notes.length > 0 ? notes.join('\n\n') : undefined,
+    customFields: customFields.length > 0 ? customFields : undefined,
+    variables: Object.keys(variables).length > 0 ? variables : undefined,
+    pinned: all.some((config) => config.pinned) || undefined,
+    lastUsedAt: lastUses.length > 0 ? Math.max(...lastUses) : undefined,
+  };
+}
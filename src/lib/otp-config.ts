@@ -0,0 +1,249 @@
+/**
+ * The OTP configuration (account) domain model: the zod schema every stored,
+ * imported and exported configuration is validated against, the OTPConfig type
+ * derived from it, and the migrations that upgrade configurations written by
+ * earlier versions of the application.
+ *
+ * Configurations are stored with the schema version they were written with. When
+ * the schema changes, bump OTP_CONFIG_VERSION and add a migration from the previous
+ * version to MIGRATIONS; older configurations are then upgraded step by step when
+ * they are loaded or imported. This applies to new optional properties too: the
+ * schema drops properties it does not know, so without a new version a file from a
+ * newer release would be imported with those properties silently lost, instead of
+ * being refused as written by a newer version.
+ *
+ * The order of the configurations is meaningful: it is the manual order of the
+ * accounts in the grid, and is kept in storage and in export files.
+ */
+import { z } from 'zod';
+
+/** Current version of the configuration schema */
+export const OTP_CONFIG_VERSION = 2;
+
+/** Format marker of plain export files */
+export const CONFIG_DOCUMENT_FORMAT = 'otp-manager-pro';
+
+/**
+ * The kind of one-time password an account produces: the ID of a token type
+ * registered with TokenTypeRegistry. The built-in types are 'totp' (rotating with
+ * time), 'hotp' (advancing with a counter), 'steam' (Steam Guard's 5-character
+ * variant), 'motp' (Mobile-OTP's PIN-based 10 second variant) and 'ocra'
+ * (challenge-response, RFC 6287).
+ */
+export type OTPType = string;
+
+/** Kinds of value a custom field can hold, which decide how the value is shown */
+export const CUSTOM_FIELD_TYPES = ['text', 'secret', 'email', 'phone', 'url'] as const;
+
+/**
+ * Schema of a custom field: a named value recorded with an account, e.g. the
+ * recovery email or the admin who owns the account (see src/lib/custom-fields.ts).
+ */
+export const customFieldSchema = z.object({
+  /** Name of the field, e.g. "Recovery email" */
+  name: z.string(),
+  /** The value */
+  value: z.string(),
+  /** Kind of value; 'secret' values are masked until revealed */
+  type: z.enum(CUSTOM_FIELD_TYPES),
+});
+
+/**
+ * A custom field of an account, as described by customFieldSchema.
+ */
+export type CustomField = z.infer<typeof customFieldSchema>;
+
+/**
+ * Schema of an OTP configuration.
+ * Contains all the information needed to generate and identify an OTP.
+ */
+export const otpConfigSchema = z.object({
+  /** Unique identifier for the configuration */
+  id: z.string().min(1),
+  /** Name of the account associated with this OTP */
+  accountName: z.string(),
+  /** Provider or service that issued the secret, e.g. as scanned from an otpauth:// URI */
+  issuer: z.string().optional(),
+  /** Tags for organizing and filtering accounts, e.g. "prod" (see src/lib/tags.ts) */
+  tags: z.array(z.string()).optional(),
+  /** Folder the account is filed in, e.g. "Work"; unset for accounts outside any folder */
+  folder: z.string().optional(),
+  /** ID of the bundled brand icon to show (see src/lib/brand-icons.ts), 'none' for no icon, or unset to match the issuer */
+  icon: z.string().optional(),
+  /** Whether the account is pinned to the top of the grid */
+  pinned: z.boolean().optional(),
+  /** When a code of the account was last copied, in milliseconds since the epoch; unset if never (see src/lib/sort.ts) */
+  lastUsedAt: z.number().optional(),
+  /** Secret key used to generate the OTP */
+  secretKey: z.string().min(1),
+  /** Optional text to add before the OTP, e.g. a static password; stored encrypted and left out of plain exports */
+  prefix: z.string(),
+  /** Optional text to add after the OTP; stored encrypted and left out of plain exports */
+  postfix: z.string(),
+  /** Template for the final string that is shown and copied (default: '{prefix}{code}{postfix}'); see src/lib/template.ts */
+  template: z.string().optional(),
+  /** Values for the account's own template placeholders, keyed by placeholder name; stored encrypted and left out of plain exports */
+  variables: z.record(z.string()).optional(),
+  /** Free-form notes about the account, e.g. which backup phone is enrolled; stored encrypted and left out of plain exports */
+  notes: z.string().optional(),
+  /** Custom fields recorded with the account, in the order entered; stored encrypted and left out of plain exports */
+  customFields: z.array(customFieldSchema).optional(),
+  /** Kind of OTP this configuration produces (default: 'totp') */
+  type: z.string().optional(),
+  /** Counter value used for the currently displayed code (HOTP, and OCRA suites with a counter input) */
+  counter: z.number().int().nonnegative().optional(),
+  /** HMAC algorithm used to generate the OTP (default: 'sha1', ignored for Steam) */
+  algorithm: z.enum(['sha1', 'sha256', 'sha512']).optional(),
+  /** Number of digits in the OTP (default: 6, ignored for Steam) */
+  digits: z.number().int().positive().optional(),
+  /** Time step in seconds for TOTP codes (default: 30, always 30 for Steam and 10 for mOTP) */
+  period: z.number().int().positive().optional(),
+  /** PIN combined with the secret key (mOTP) or used as the password input (OCRA); as sensitive as the secret key itself */
+  pin: z.string().optional(),
+  /** OCRA suite describing the challenge-response inputs, e.g. "OCRA-1:HOTP-SHA1-6:QN08" (OCRA only) */
+  ocraSuite: z.string().optional(),
+  /** Seconds added to the corrected clock for this account only, for services whose own clock is off (default: 0) */
+  timeOffset: z.number().optional(),
+  /** Settings of token types registered outside the application, keyed by field key */
+  settings: z.record(z.union([z.string(), z.number()])).optional(),
+});
+
+/**
+ * An OTP configuration, as described by otpConfigSchema.
+ */
+export type OTPConfig = z.infer<typeof otpConfigSchema>;
+
+/**
+ * Contents of a plain export file.
+ */
+export interface ConfigDocument {
+  /** Always CONFIG_DOCUMENT_FORMAT */
+  format: typeof CONFIG_DOCUMENT_FORMAT;
+  /** Schema version the configurations were written with */
+  version: number;
+  /** The configurations */
+  configs: OTPConfig[];
+}
+
+/**
+ * A configuration in the shape written by some earlier version, before migration.
+ */
+type RawConfig = { [key: string]: unknown };
+
+/**
+ * Migrations keyed by the version they upgrade from; each returns the
+ * configuration in the shape of the next version.
+ */
+const MIGRATIONS: { [fromVersion: number]: (config: RawConfig) => RawConfig } = {
+  /**
+   * Version 0: configurations from before the schema was versioned, including the
+   * plaintext 'otpConfigs' key written by the original page and plain array exports.
+   * The original page only wrote id, accountName, secretKey, prefix and postfix;
+   * hand-edited files may also hold numbers as strings or upper-case algorithms.
+   */
+  0: (config) => {
+    const migrated: RawConfig = {
+      ...config,
+      id: typeof config.id === 'string' && config.id ? config.id : Math.random().toString(36).substring(7),
+      prefix: config.prefix ?? '',
+      postfix: config.postfix ?? '',
+    };
+    for (const key of ['counter', 'digits', 'period', 'timeOffset']) {
+      if (typeof migrated[key] === 'string' && migrated[key] !== '') {
+        migrated[key] = Number(migrated[key]);
+      }
+    }
+    if (typeof migrated.algorithm === 'string') {
+      migrated.algorithm = migrated.algorithm.toLowerCase();
+    }
+    return migrated;
+  },
+
+  /**
+   * Version 1: configurations from before issuers, icons, folders, tags, pins, last
+   * use, notes and custom fields were added. All of them are optional, so the
+   * configurations are valid as they are.
+   */
+  1: (config) => config,
+};
+
+/**
+ * Describes why data does not match the schema, for error messages.
+ *
+ * @param error - The validation error
+ * @returns The problems, one per invalid property
+ */
+function describeIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+    .join('; ');
+}
+
+/**
+ * Upgrades a configuration written with an earlier schema version and validates it.
+ *
+ * @param data - The configuration as stored or imported
+ * @param version - The schema version it was written with (0 for unversioned data)
+ * @returns The validated configuration in the current shape
+ * @throws Error if the version is newer than this application supports or the configuration is invalid
+ */
+export function migrateConfig(data: unknown, version: number): OTPConfig {
+  if (!Number.isInteger(version) || version < 0) {
+    throw new Error(`Invalid configuration version "${version}".`);
+  }
+  if (version > OTP_CONFIG_VERSION) {
+    throw new Error(`Configurations of version ${version} were written by a newer version of OTP Manager Pro.`);
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error('Invalid configuration: expected an object.');
+  }
+
+  let config = data as RawConfig;
+  for (let step = version; step < OTP_CONFIG_VERSION; step++) {
+    config = MIGRATIONS[step](config);
+  }
+
+  const result = otpConfigSchema.safeParse(config);
+  if (!result.success) {
+    const name = typeof config.accountName === 'string' ? ` "${config.accountName}"` : '';
+    throw new Error(`Invalid configuration${name}: ${describeIssues(result.error)}`);
+  }
+  return result.data;
+}
+
+/**
+ * Reads configurations from the contents of an export file or the legacy storage key.
+ * Accepts plain arrays written before the schema was versioned as well as ConfigDocuments.
+ *
+ * @param data - The parsed JSON contents
+ * @returns The validated configurations in the current shape
+ * @throws Error if the data is not a known format or any configuration is invalid
+ */
+export function parseConfigDocument(data: unknown): OTPConfig[] {
+  if (Array.isArray(data)) {
+    return data.map((config) => migrateConfig(config, 0));
+  }
+
+  const document = data as Partial<ConfigDocument> | null;
+  if (typeof document !== 'object' || document === null || document.format !== CONFIG_DOCUMENT_FORMAT) {
+    throw new Error('Unrecognized file format.');
+  }
+  if (!Array.isArray(document.configs)) {
+    throw new Error('Invalid file: the configurations are missing.');
+  }
+  const version = document.version ?? 0;
+  if (version > OTP_CONFIG_VERSION) {
+    throw new Error(`This file was written by a newer version of OTP Manager Pro (version ${version}).`);
+  }
+  return document.configs.map((config) => migrateConfig(config, version));
+}
+
+/**
+ * Wraps configurations in a ConfigDocument of the current version.
+ *
+ * @param configs - The configurations to export
+ * @returns The document to write as JSON
+ */
+export function toConfigDocument(configs: OTPConfig[]): ConfigDocument {
+  return { format: CONFIG_DOCUMENT_FORMAT, version: OTP_CONFIG_VERSION, configs };
+}
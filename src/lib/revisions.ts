@@ -0,0 +1,191 @@
+/**
+ * Revision history of accounts. Every edit, revert, import and merge that changes an
+ * account records the account as it was before the change, with when, on which
+ * device and by what kind of change it was changed. Revisions hold the old
+ * secret keys, so they are stored encrypted with the account (see OTPContext).
+ * The changes of a revision are found by comparing it with the version that
+ * followed it: the next newer revision, or the account as it is now.
+ */
+import type { OTPConfig } from '@/lib/otp-config';
+
+/**
+ * What kind of change replaced a revision.
+ */
+export type RevisionAction = 'edit' | 'revert' | 'import' | 'merge';
+
+/**
+ * A version of an account, recorded when it was changed.
+ */
+export interface ConfigRevision {
+  /** Unique identifier of the revision */
+  id: string;
+  /** When the account was changed, in milliseconds since the epoch */
+  changedAt: number;
+  /** What kind of change it was */
+  action: RevisionAction;
+  /** Browser and operating system the change was made on, e.g. "Firefox on Linux" */
+  device: string;
+  /** The account as it was before the change */
+  config: OTPConfig;
+}
+
+/**
+ * A property that differs between two versions of an account.
+ */
+export interface ConfigChange {
+  /** The property */
+  key: keyof OTPConfig;
+  /** Label of the property for display */
+  label: string;
+  /** The earlier value formatted for display, '' if unset */
+  before: string;
+  /** The later value formatted for display, '' if unset */
+  after: string;
+  /** Whether the values are secret and masked until revealed */
+  sensitive: boolean;
+}
+
+/** Maximum number of revisions kept per account; older ones are dropped */
+export const MAX_REVISIONS = 50;
+
+/** Labels of the kinds of change */
+export const REVISION_ACTION_LABELS: { [action in RevisionAction]: string } = {
+  edit: 'Edited',
+  revert: 'Reverted',
+  import: 'Replaced by import',
+  merge: 'Merged with duplicates',
+};
+
+/**
+ * Properties compared between versions, in the order they are listed. The ID,
+ * pin and last use are not part of an account's history.
+ */
+const TRACKED_PROPERTIES: { key: keyof OTPConfig; label: string; sensitive?: boolean }[] = [
+  { key: 'accountName', label: 'Account name' },
+  { key: 'issuer', label: 'Issuer' },
+  { key: 'folder', label: 'Folder' },
+  { key: 'tags', label: 'Tags' },
+  { key: 'icon', label: 'Icon' },
+  { key: 'type', label: 'Type' },
+  { key: 'secretKey', label: 'Secret key', sensitive: true },
+  { key: 'algorithm', label: 'Algorithm' },
+  { key: 'digits', label: 'Digits' },
+  { key: 'period', label: 'Period' },
+  { key: 'counter', label: 'Counter' },
+  { key: 'pin', label: 'PIN', sensitive: true },
+  { key: 'ocraSuite', label: 'OCRA suite' },
+  { key: 'timeOffset', label: 'Time offset' },
+  { key: 'settings', label: 'Other settings' },
+  { key: 'prefix', label: 'Prefix', sensitive: true },
+  { key: 'postfix', label: 'Postfix', sensitive: true },
+  { key: 'template', label: 'Format' },
+  { key: 'variables', label: 'Variables', sensitive: true },
+  { key: 'notes', label: 'Notes', sensitive: true },
+  { key: 'customFields', label: 'Custom fields', sensitive: true },
+];
+
+/**
+ * Formats a property value for display and comparison.
+ * Lists are joined with commas, custom fields and keyed values are listed one per line.
+ *
+ * @param value - The value
+ * @returns The formatted value, '' if unset or empty
+ */
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return value
+      .map((item) => (typeof item === 'object' && item !== null && 'name' in item
+        ? `${item.name} (${item.type}): ${item.value}`
+        : String(item)))
+      .join(typeof value[0] === 'object' ? '\n' : ', ');
+  }
+  if (typeof value === 'object') {
+    return Object.entries(value).map(([key, entry]) => `${key}: ${entry}`).join('\n');
+  }
+  return String(value);
+}
+
+/**
+ * Lists the properties that differ between two versions of an account.
+ *
+ * @param before - The earlier version
+ * @param after - The later version
+ * @returns The changed properties in display order; empty if nothing tracked changed
+ */
+export function diffConfigs(before: OTPConfig, after: OTPConfig): ConfigChange[] {
+  const changes: ConfigChange[] = [];
+  for (const { key, label, sensitive } of TRACKED_PROPERTIES) {
+    const beforeValue = formatValue(before[key]);
+    const afterValue = formatValue(after[key]);
+    if (beforeValue !== afterValue) {
+      changes.push({ key, label, before: beforeValue, after: afterValue, sensitive: sensitive ?? false });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Adds a revision to an account's history.
+ *
+ * @param revisions - The account's revisions, newest first, if any
+ * @param revision - The new revision
+ * @returns The revisions newest first, without the oldest ones beyond MAX_REVISIONS
+ */
+export function addRevision(revisions: ConfigRevision[] | undefined, revision: ConfigRevision): ConfigRevision[] {
+  return [revision, ...(revisions ?? [])].slice(0, MAX_REVISIONS);
+}
+
+/**
+ * Builds the account that reverting to a revision produces.
+ * The pin and last use are kept, as they are not part of the history. When the
+ * secret key is unchanged the counter is never moved back, since codes for the
+ * counter values in between were already shown and may have been used.
+ *
+ * @param current - The account as it is now
+ * @param revision - The revision to revert to
+ * @returns The reverted account
+ */
+export function applyRevision(current: OTPConfig, revision: ConfigRevision): OTPConfig {
+  const reverted: OTPConfig = {
+    ...revision.config,
+    id: current.id,
+    pinned: current.pinned,
+    lastUsedAt: current.lastUsedAt,
+  };
+  if (reverted.secretKey === current.secretKey && current.counter !== undefined) {
+    reverted.counter = Math.max(reverted.counter ?? 0, current.counter);
+  }
+  return reverted;
+}
+
+/**
+ * Describes the device a change is made on, from the browser's user agent.
+ * The application has no user accounts, so the device stands in for who made the change.
+ *
+ * @param userAgent - The user agent string
+ * @returns The browser and operating system, e.g. "Chrome on Windows", or "Unknown device"
+ */
+export function describeDevice(userAgent: string): string {
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge'
+    : /OPR\/|Opera/.test(userAgent) ? 'Opera'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\/|CriOS\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : null;
+  const os =
+    /iPhone|iPad|iPod/.test(userAgent) ? 'iOS'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Mac OS X|Macintosh/.test(userAgent) ? 'macOS'
+    : /CrOS/.test(userAgent) ? 'ChromeOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : null;
+  if (browser && os) {
+    return `${browser} on ${os}`;
+  }
+  return browser ?? os ?? 'Unknown device';
+}
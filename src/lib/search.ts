@@ -0,0 +1,213 @@
+/**
+ * Fuzzy search over accounts. A query matches an account if each of its
+ * whitespace-separated terms matches one of the account's searchable fields,
+ * either as a substring or as a subsequence of characters in order (so "ghw"
+ * finds "GitHub Work"). Results are ranked so that substring matches, matches at
+ * the start of words and matches in the account name come first.
+ * Notes and custom field values (except secret ones) are searched too, but only
+ * for substrings; they rank below the other fields and are not highlighted, since
+ * they are not shown on the card.
+ */
+import type { OTPConfig } from '@/lib/otp-config';
+
+/**
+ * Where a term matched a text.
+ */
+export interface FuzzyMatch {
+  /** How well the term matched; higher is better */
+  score: number;
+  /** Positions of the matched characters in the text, in ascending order */
+  indices: number[];
+}
+
+/**
+ * Positions of matched characters in each field of an account, for highlighting.
+ */
+export interface SearchHighlights {
+  /** Matched positions in the account name */
+  accountName?: number[];
+  /** Matched positions in the issuer */
+  issuer?: number[];
+  /** Matched positions in the folder */
+  folder?: number[];
+  /** Matched positions in each matching tag, keyed by tag */
+  tags?: { [tag: string]: number[] };
+}
+
+/**
+ * An account that matches a query.
+ */
+export interface SearchResult {
+  /** The matching account */
+  config: OTPConfig;
+  /** How well the account matched; higher is better */
+  score: number;
+  /** Where the query matched, for highlighting */
+  highlights: SearchHighlights;
+}
+
+/**
+ * A searchable text of an account.
+ */
+interface SearchField {
+  /** The field the text comes from, or null for texts that are not highlighted */
+  field: keyof SearchHighlights | null;
+  /** The text */
+  text: string;
+  /** Weight of matches in this field relative to the account name */
+  weight: number;
+  /** Whether only substring matches count, for long texts in which scattered letters match too easily */
+  substringOnly?: boolean;
+}
+
+/**
+ * Checks whether a character starts a word: it is the first character, follows a
+ * non-alphanumeric character, or is an upper-case letter after a lower-case one.
+ *
+ * @param text - The text
+ * @param index - Position of the character
+ * @returns True if the character starts a word
+ */
+function isWordStart(text: string, index: number): boolean {
+  if (index === 0) {
+    return true;
+  }
+  const previous = text[index - 1];
+  const current = text[index];
+  return !/[\p{L}\p{N}]/u.test(previous) || (previous === previous.toLowerCase() && current !== current.toLowerCase());
+}
+
+/**
+ * Matches a search term against a text, ignoring case.
+ *
+ * @param term - The search term
+ * @param text - The text to search in
+ * @returns Where and how well the term matched, or null if it does not match
+ */
+export function fuzzyMatch(term: string, text: string): FuzzyMatch | null {
+  const lowerTerm = term.toLowerCase();
+  const lowerText = text.toLowerCase();
+  if (!lowerTerm) {
+    return { score: 0, indices: [] };
+  }
+
+  // A substring match beats any scattered match
+  const start = lowerText.indexOf(lowerTerm);
+  if (start !== -1) {
+    const bonus = start === 0 ? 50 : isWordStart(text, start) ? 25 : 0;
+    return {
+      score: 100 + lowerTerm.length * 10 + bonus,
+      indices: Array.from({ length: lowerTerm.length }, (_, i) => start + i),
+    };
+  }
+
+  const indices: number[] = [];
+  let score = 0;
+  let position = 0;
+  for (const char of lowerTerm) {
+    const found = lowerText.indexOf(char, position);
+    if (found === -1) {
+      return null;
+    }
+    const previous = indices.length > 0 ? indices[indices.length - 1] : -1;
+    score += 1;
+    if (found === previous + 1) {
+      score += 5;
+    }
+    if (isWordStart(text, found)) {
+      score += 8;
+    }
+    score -= Math.min(found - previous - 1, 5);
+    indices.push(found);
+    position = found + 1;
+  }
+  return { score, indices };
+}
+
+/**
+ * Lists the texts of an account that are searched.
+ *
+ * @param config - The account
+ * @returns The searchable texts with their weights
+ */
+function getSearchFields(config: OTPConfig): SearchField[] {
+  const fields: SearchField[] = [{ field: 'accountName', text: config.accountName, weight: 1 }];
+  if (config.issuer) {
+    fields.push({ field: 'issuer', text: config.issuer, weight: 0.9 });
+  }
+  for (const tag of config.tags ?? []) {
+    fields.push({ field: 'tags', text: tag, weight: 0.8 });
+  }
+  if (config.folder) {
+    fields.push({ field: 'folder', text: config.folder, weight: 0.6 });
+  }
+  if (config.notes) {
+    fields.push({ field: null, text: config.notes, weight: 0.5, substringOnly: true });
+  }
+  for (const customField of config.customFields ?? []) {
+    if (customField.type !== 'secret') {
+      fields.push({ field: null, text: customField.value, weight: 0.5, substringOnly: true });
+    }
+  }
+  return fields;
+}
+
+/**
+ * Adds matched positions to an account's highlights.
+ *
+ * @param highlights - The highlights to add to
+ * @param field - The field that matched
+ * @param match - Where it matched
+ */
+function addHighlight(highlights: SearchHighlights, field: SearchField, match: FuzzyMatch) {
+  if (field.field === null) {
+    return;
+  }
+  if (field.field === 'tags') {
+    const tags = (highlights.tags ??= {});
+    tags[field.text] = [...(tags[field.text] ?? []), ...match.indices];
+  } else {
+    highlights[field.field] = [...(highlights[field.field] ?? []), ...match.indices];
+  }
+}
+
+/**
+ * Searches accounts.
+ *
+ * @param configs - The accounts to search
+ * @param query - The search query; whitespace separates terms that must all match
+ * @returns The matching accounts, best match first (accounts that match equally well keep their order)
+ */
+export function searchConfigs(configs: OTPConfig[], query: string): SearchResult[] {
+  const terms = query.trim().split(/\s+/).filter(Boolean);
+  const results: SearchResult[] = [];
+  for (const config of configs) {
+    const fields = getSearchFields(config);
+    const highlights: SearchHighlights = {};
+    let score = 0;
+    let matchesAll = true;
+    for (const term of terms) {
+      let best: { field: SearchField; match: FuzzyMatch; score: number } | null = null;
+      for (const field of fields) {
+        if (field.substringOnly && !field.text.toLowerCase().includes(term.toLowerCase())) {
+          continue;
+        }
+        const match = fuzzyMatch(term, field.text);
+        if (match && (!best || match.score * field.weight > best.score)) {
+          best = { field, match, score: match.score * field.weight };
+        }
+      }
+      if (!best) {
+        matchesAll = false;
+        break;
+      }
+      score += best.score;
+      addHighlight(highlights, best.field, best.match);
+    }
+    if (matchesAll) {
+      results.push({ config, score, highlights });
+    }
+  }
+  // Array.prototype.sort is stable, so equal scores keep the accounts' order
+  return results.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,123 @@
+/**
+ * Parsing and normalization of OTP secret keys as they are typed, scanned or imported.
+ * Every secret is stored in one canonical form (unpadded uppercase base32) so that
+ * the same key always produces the same codes, whatever form it was entered in.
+ */
+import { decodeBase32, encodeBase32 } from '@/lib/base32';
+
+/**
+ * Encodings a secret key can be entered in.
+ * 'base32' is used by otpauth:// URIs and most services, 'hex' by hardware token
+ * seed sheets, and 'base64' by some exports (e.g. Steam's shared_secret).
+ */
+export type SecretEncoding = 'base32' | 'hex' | 'base64';
+
+/**
+ * Result of normalizing a secret key.
+ */
+export interface NormalizedSecret {
+  /** The secret as unpadded uppercase base32 */
+  secret: string;
+  /** Length of the decoded key in bytes */
+  keyLength: number;
+}
+
+/** Minimum key length in bytes recommended by RFC 4226 (128 bits) */
+export const MIN_RECOMMENDED_KEY_LENGTH = 16;
+
+/** Human-readable names of the encodings, for error messages */
+const ENCODING_NAMES: Record<SecretEncoding, string> = {
+  base32: 'Base32',
+  hex: 'hex',
+  base64: 'Base64',
+};
+
+/** Characters allowed in each encoding after cleanup */
+const ENCODING_ALPHABETS: Record<SecretEncoding, RegExp> = {
+  base32: /[A-Z2-7]/,
+  hex: /[0-9a-fA-F]/,
+  base64: /[A-Za-z0-9+/\-_]/,
+};
+
+/**
+ * Removes the separators people and documents put into secrets for readability.
+ * Base32 secrets are also uppercased, and padding is removed from Base32 and Base64.
+ *
+ * @param input - The secret as entered
+ * @param encoding - The encoding the secret is in
+ * @returns The secret with only encoding characters left
+ */
+function cleanSecret(input: string, encoding: SecretEncoding): string {
+  switch (encoding) {
+    case 'base32':
+      return input.replace(/[\s-]/g, '').toUpperCase().replace(/=+$/, '');
+    case 'hex':
+      return input.replace(/[\s:-]/g, '').replace(/^0x/i, '');
+    case 'base64':
+      return input.replace(/\s/g, '').replace(/=+$/, '');
+  }
+}
+
+/**
+ * Decodes a cleaned Base64 or Base64url string into raw bytes.
+ *
+ * @param input - The cleaned string, without padding
+ * @returns The decoded bytes
+ */
+function decodeBase64(input: string): Uint8Array {
+  const standard = input.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(standard + '='.repeat((4 - (standard.length % 4)) % 4));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+/**
+ * Parses a secret key in the given encoding and converts it to canonical base32.
+ * Spaces and dashes are ignored, Base32 is case-insensitive, padding is optional,
+ * hex may be prefixed with 0x or separated by colons, and Base64 may be Base64url.
+ *
+ * @param input - The secret as typed, scanned or imported
+ * @param encoding - The encoding the secret is in (default: 'base32')
+ * @returns The normalized secret and its decoded key length
+ * @throws Error describing the problem if the secret is empty or not valid in the encoding
+ */
+export function normalizeSecret(input: string, encoding: SecretEncoding = 'base32'): NormalizedSecret {
+  const cleaned = cleanSecret(input, encoding);
+  const name = ENCODING_NAMES[encoding];
+
+  if (!cleaned) {
+    throw new Error('The secret key is empty.');
+  }
+
+  const invalidIndex = Array.from(cleaned).findIndex((char) => !ENCODING_ALPHABETS[encoding].test(char));
+  if (invalidIndex !== -1) {
+    const hint = encoding === 'base32' && /[0189]/.test(cleaned[invalidIndex])
+      ? ' Base32 only uses the digits 2-7; the secret may be hex or Base64.'
+      : '';
+    throw new Error(`Invalid character "${cleaned[invalidIndex]}" in ${name} secret key.${hint}`);
+  }
+
+  let bytes: Uint8Array;
+  switch (encoding) {
+    case 'base32':
+      bytes = decodeBase32(cleaned);
+      break;
+    case 'hex':
+      if (cleaned.length % 2 !== 0) {
+        throw new Error('A hex secret key must have an even number of characters.');
+      }
+      bytes = Uint8Array.from(cleaned.match(/../g) ?? [], (pair) => parseInt(pair, 16));
+      break;
+    case 'base64':
+      if (cleaned.length % 4 === 1) {
+        throw new Error('The Base64 secret key is truncated.');
+      }
+      bytes = decodeBase64(cleaned);
+      break;
+  }
+
+  if (bytes.length === 0) {
+    throw new Error(`The ${name} secret key is too short.`);
+  }
+
+  return { secret: encodeBase32(bytes), keyLength: bytes.length };
+}
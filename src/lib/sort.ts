@@ -0,0 +1,93 @@
+/**
+ * Ordering of accounts in the grid. The manual order is the order of the
+ * configurations themselves, so it is stored, exported and imported along with
+ * them; the other sort orders are computed from the configurations when shown.
+ */
+import type { OTPConfig } from '@/lib/otp-config';
+
+/**
+ * How accounts are ordered in the grid.
+ */
+export type SortOrder = 'manual' | 'name' | 'issuer' | 'recent';
+
+/** Sort order used until the user picks one */
+export const DEFAULT_SORT_ORDER: SortOrder = 'manual';
+
+/** The sort orders with their labels, in the order they are offered */
+export const SORT_ORDERS: { value: SortOrder; label: string }[] = [
+  { value: 'manual', label: 'Manual' },
+  { value: 'name', label: 'Name' },
+  { value: 'issuer', label: 'Issuer' },
+  { value: 'recent', label: 'Recently used' },
+];
+
+/**
+ * Checks whether a value is a known sort order, e.g. one read back from local storage.
+ *
+ * @param value - The value to check
+ * @returns True if the value is a sort order
+ */
+export function isSortOrder(value: unknown): value is SortOrder {
+  return SORT_ORDERS.some((order) => order.value === value);
+}
+
+/**
+ * Compares two texts the way account names are sorted: ignoring case and accents.
+ *
+ * @param a - The first text
+ * @param b - The second text
+ * @returns A negative number if a comes first, a positive number if b comes first, 0 if they are equal
+ */
+function compareText(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { sensitivity: 'base', numeric: true });
+}
+
+/**
+ * Sorts accounts.
+ *
+ * @param configs - The accounts in their manual order
+ * @param order - The sort order
+ * @returns The accounts in the sort order; accounts that sort equally keep their manual order.
+ * Accounts without an issuer come after the others when sorting by issuer, and accounts
+ * that were never used come after the others when sorting by recent use.
+ */
+export function sortConfigs(configs: OTPConfig[], order: SortOrder): OTPConfig[] {
+  const sorted = [...configs];
+  switch (order) {
+    case 'name':
+      return sorted.sort((a, b) => compareText(a.accountName, b.accountName));
+    case 'issuer':
+      return sorted.sort((a, b) => {
+        if (!a.issuer || !b.issuer) {
+          return Number(!a.issuer) - Number(!b.issuer) || compareText(a.accountName, b.accountName);
+        }
+        return compareText(a.issuer, b.issuer) || compareText(a.accountName, b.accountName);
+      });
+    case 'recent':
+      return sorted.sort((a, b) => (b.lastUsedAt ?? 0) - (a.lastUsedAt ?? 0));
+    default:
+      return sorted;
+  }
+}
+
+/**
+ * Moves an account to the position of another account in the manual order.
+ * Moving an account down places it after the target, moving it up places it
+ * before the target, so moving onto a neighbour swaps the two.
+ *
+ * @param configs - The accounts in their manual order
+ * @param id - The ID of the account to move
+ * @param targetId - The ID of the account whose position it takes
+ * @returns The accounts in the new order, or the same array if either account does not exist
+ */
+export function moveConfig(configs: OTPConfig[], id: string, targetId: string): OTPConfig[] {
+  const from = configs.findIndex((config) => config.id === id);
+  const to = configs.findIndex((config) => config.id === targetId);
+  if (from === -1 || to === -1 || from === to) {
+    return configs;
+  }
+  const moved = [...configs];
+  const [config] = moved.splice(from, 1);
+  moved.splice(to, 0, config);
+  return moved;
+}
@@ -0,0 +1,120 @@
+/**
+ * Tags and folders for organizing accounts. An account can have any number of
+ * tags (e.g. "prod", "shared") and belong to at most one folder (e.g. "Work").
+ * Tags and folders are compared case-insensitively, so "Prod" and "prod" are the
+ * same tag; the spelling first used is the one shown.
+ */
+import type { OTPConfig } from '@/lib/otp-config';
+
+/**
+ * A tag or folder with the number of accounts that use it.
+ */
+export interface LabelCount {
+  /** The tag or folder name */
+  name: string;
+  /** Number of accounts with the tag, or in the folder */
+  count: number;
+}
+
+/**
+ * Which accounts are shown in the grid.
+ */
+export interface AccountFilter {
+  /** Folder whose accounts are shown, or null for all folders */
+  folder: string | null;
+  /** Tags an account must all have to be shown; empty to show accounts regardless of tags */
+  tags: string[];
+}
+
+/** Filter that shows every account */
+export const NO_FILTER: AccountFilter = { folder: null, tags: [] };
+
+/**
+ * Cleans up a tag or folder name: trims it and collapses runs of whitespace.
+ *
+ * @param name - The name as entered
+ * @returns The cleaned-up name, or '' if there is nothing left
+ */
+export function normalizeLabel(name: string): string {
+  return name.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Compares two tag or folder names the way they are matched.
+ *
+ * @param a - The first name
+ * @param b - The second name
+ * @returns True if the names refer to the same tag or folder
+ */
+export function isSameLabel(a: string, b: string): boolean {
+  return a.toLocaleLowerCase() === b.toLocaleLowerCase();
+}
+
+/**
+ * Cleans up a list of tags: normalizes each tag and drops empty and duplicate ones.
+ *
+ * @param tags - The tags as entered
+ * @returns The tags in the order entered, or undefined if there are none
+ */
+export function normalizeTags(tags: string[]): string[] | undefined {
+  const result: string[] = [];
+  for (const tag of tags.map(normalizeLabel)) {
+    if (tag && !result.some((existing) => isSameLabel(existing, tag))) {
+      result.push(tag);
+    }
+  }
+  return result.length > 0 ? result : undefined;
+}
+
+/**
+ * Counts how often each name occurs, merging names that only differ in case.
+ *
+ * @param names - The names, one per use
+ * @returns The names with their counts, sorted alphabetically
+ */
+function countLabels(names: string[]): LabelCount[] {
+  const counts: LabelCount[] = [];
+  for (const name of names) {
+    const existing = counts.find((label) => isSameLabel(label.name, name));
+    if (existing) {
+      existing.count++;
+    } else {
+      counts.push({ name, count: 1 });
+    }
+  }
+  return counts.sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }));
+}
+
+/**
+ * Lists the tags used by any account.
+ *
+ * @param configs - The accounts
+ * @returns The tags with the number of accounts that have them, sorted alphabetically
+ */
+export function collectTags(configs: OTPConfig[]): LabelCount[] {
+  return countLabels(configs.flatMap((config) => config.tags ?? []));
+}
+
+/**
+ * Lists the folders that hold any account.
+ *
+ * @param configs - The accounts
+ * @returns The folders with the number of accounts in them, sorted alphabetically
+ */
+export function collectFolders(configs: OTPConfig[]): LabelCount[] {
+  return countLabels(configs.flatMap((config) => (config.folder ? [config.folder] : [])));
+}
+
+/**
+ * Checks whether an account is shown by a filter.
+ *
+ * @param config - The account
+ * @param filter - The filter
+ * @returns True if the account is in the filter's folder and has all of its tags
+ */
+export function matchesFilter(config: OTPConfig, filter: AccountFilter): boolean {
+  if (filter.folder !== null && !(config.folder && isSameLabel(config.folder, filter.folder))) {
+    return false;
+  }
+  return filter.tags.every((tag) => (config.tags ?? []).some((own) => isSameLabel(own, tag)));
+}
@@ -0,0 +1,170 @@
+/**
+ * The small template language used to build the final string that is shown and
+ * copied for an account, e.g. "{pin}{code}" for VPNs that expect a PIN in front
+ * of the code, or "{code:3}" for services that want the code split by a dash.
+ *
+ * Syntax:
+ * - `{name}` inserts a value: code, account, issuer, prefix, postfix, or a per-account variable
+ * - `{name:N}` splits the value into groups of N characters joined by a dash, e.g. "123-456"
+ * - `{name:N:separator}` joins the groups with the separator instead, e.g. `{code:4: }`
+ * - `{{` and `}}` insert literal braces
+ */
+import type { OTPConfig } from '@/lib/otp-config';
+
+/** Template used by accounts without one: the code between the prefix and the postfix */
+export const DEFAULT_OTP_TEMPLATE = '{prefix}{code}{postfix}';
+
+/** Placeholders every account provides, in the order they are documented */
+export const BUILT_IN_PLACEHOLDERS = ['code', 'account', 'issuer', 'prefix', 'postfix'];
+
+/**
+ * Values for the placeholders of a template, keyed by placeholder name.
+ */
+export type TemplateValues = { [name: string]: string };
+
+/**
+ * The parts of an account a template is rendered from.
+ */
+export type TemplateSource = Pick<OTPConfig, 'accountName' | 'issuer' | 'prefix' | 'postfix' | 'variables' | 'template'>;
+
+/**
+ * A per-account variable as edited in the editor.
+ */
+export interface TemplateVariable {
+  /** Name of the placeholder, e.g. "pin" for {pin} */
+  name: string;
+  /** Value inserted for the placeholder */
+  value: string;
+}
+
+/** Pattern a placeholder (and so a variable) name must match */
+const NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+/**
+ * Checks that a per-account variable can be used as a placeholder.
+ *
+ * @param name - The variable name
+ * @throws Error if the name is not a valid placeholder name or is taken by a built-in placeholder
+ */
+export function validateVariableName(name: string): void {
+  if (!NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid variable name "${name}". Use letters, digits and underscores, starting with a letter.`);
+  }
+  if (BUILT_IN_PLACEHOLDERS.includes(name)) {
+    throw new Error(`The variable name "${name}" is reserved.`);
+  }
+}
+
+/**
+ * Converts an account's variables into the list edited in the editor.
+ *
+ * @param variables - The account's variables, if any
+ * @returns The variables in the order they were stored
+ */
+export function toVariableList(variables?: { [name: string]: string }): TemplateVariable[] {
+  return Object.entries(variables ?? {}).map(([name, value]) => ({ name, value }));
+}
+
+/**
+ * Converts the edited variable list back into an account's variables.
+ * Empty rows, with neither a name nor a value, are ignored.
+ *
+ * @param list - The edited variables
+ * @returns The variables keyed by name, or undefined if there are none
+ * @throws Error if a name is invalid, reserved or used twice
+ */
+export function fromVariableList(list: TemplateVariable[]): { [name: string]: string } | undefined {
+  const variables: { [name: string]: string } = {};
+  for (const { name, value } of list) {
+    const trimmedName = name.trim();
+    if (!trimmedName && !value) {
+      continue;
+    }
+    validateVariableName(trimmedName);
+    if (Object.prototype.hasOwnProperty.call(variables, trimmedName)) {
+      throw new Error(`The variable "${trimmedName}" is defined twice.`);
+    }
+    variables[trimmedName] = value;
+  }
+  return Object.keys(variables).length > 0 ? variables : undefined;
+}
+
+/**
+ * Renders a single placeholder, e.g. "code" or "code:3:-".
+ *
+ * @param placeholder - The text between the braces
+ * @param values - The placeholder values
+ * @returns The value of the placeholder, grouped if requested
+ * @throws Error if the placeholder is unknown or its grouping is invalid
+ */
+function renderPlaceholder(placeholder: string, values: TemplateValues): string {
+  const [name, group, ...separatorParts] = placeholder.split(':');
+  if (!Object.prototype.hasOwnProperty.call(values, name)) {
+    throw new Error(`Unknown placeholder "{${name}}".`);
+  }
+
+  const value = values[name];
+  if (group === undefined) {
+    return value;
+  }
+
+  const size = Number(group);
+  if (!/^\d+$/.test(group) || size < 1) {
+    throw new Error(`Invalid group size "${group}" in "{${placeholder}}".`);
+  }
+  const separator = separatorParts.length > 0 ? separatorParts.join(':') : '-';
+  return (value.match(new RegExp(`.{1,${size}}`, 'gs')) ?? []).join(separator);
+}
+
+/**
+ * Renders a template.
+ *
+ * @param template - The template
+ * @param values - The placeholder values
+ * @returns The rendered string
+ * @throws Error describing the problem if a brace is unmatched, a placeholder is unknown or a grouping is invalid
+ */
+export function renderTemplate(template: string, values: TemplateValues): string {
+  let result = '';
+  let index = 0;
+  while (index < template.length) {
+    const char = template[index];
+    if ((char === '{' || char === '}') && template[index + 1] === char) {
+      result += char;
+      index += 2;
+    } else if (char === '{') {
+      const end = template.indexOf('}', index + 1);
+      if (end === -1) {
+        throw new Error(`Unclosed "{" at position ${index + 1}. Write "{{" for a literal brace.`);
+      }
+      result += renderPlaceholder(template.substring(index + 1, end), values);
+      index = end + 1;
+    } else if (char === '}') {
+      throw new Error(`Unmatched "}" at position ${index + 1}. Write "}}" for a literal brace.`);
+    } else {
+      result += char;
+      index += 1;
+    }
+  }
+  return result;
+}
+
+/**
+ * Builds the final string for an account's code from the account's template
+ * (or the default template, which puts the code between the prefix and the postfix).
+ *
+ * @param source - The account to format the code for
+ * @param code - The generated code
+ * @returns The code formatted with the account's template
+ * @throws Error if the account's template is invalid
+ */
+export function formatOtp(source: TemplateSource, code: string): string {
+  return renderTemplate(source.template || DEFAULT_OTP_TEMPLATE, {
+    ...source.variables,
+    code,
+    account: source.accountName,
+    issuer: source.issuer ?? '',
+    prefix: source.prefix ?? '',
+    postfix: source.postfix ?? '',
+  });
+}
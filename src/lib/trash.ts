@@ -0,0 +1,68 @@
+/**
+ * The trash: deleted accounts are kept, encrypted like all other accounts, until
+ * they are restored, purged by hand or older than the retention period. Losing a
+ * secret key can lock someone out of an account for good, so nothing is deleted
+ * right away.
+ */
+import type { OTPConfig } from '@/lib/otp-config';
+
+/**
+ * A deleted account in the trash.
+ */
+export interface TrashedConfig {
+  /** The deleted account */
+  config: OTPConfig;
+  /** When the account was deleted, in milliseconds since the epoch */
+  deletedAt: number;
+  /** Position of the account in the manual order when it was deleted, where it is restored to */
+  position: number;
+}
+
+/** Number of milliseconds in a day */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Choices, in days, for how long deleted accounts are kept; 0 keeps them until purged by hand */
+export const TRASH_RETENTION_OPTIONS = [1, 7, 30, 90, 0];
+
+/** Number of days deleted accounts are kept until the user picks another retention */
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/**
+ * Gets when a deleted account is purged automatically.
+ *
+ * @param entry - The deleted account
+ * @param retentionDays - Number of days deleted accounts are kept, or 0 to keep them until purged by hand
+ * @returns The time of the purge in milliseconds since the epoch, or null if the account is kept
+ */
+export function getPurgeTime(entry: TrashedConfig, retentionDays: number): number | null {
+  return retentionDays > 0 ? entry.deletedAt + retentionDays * DAY_MS : null;
+}
+
+/**
+ * Removes the deleted accounts that are older than the retention period.
+ *
+ * @param trash - The deleted accounts
+ * @param retentionDays - Number of days deleted accounts are kept, or 0 to keep them until purged by hand
+ * @param now - The current time in milliseconds since the epoch
+ * @returns The deleted accounts that are kept, or the same array if none expired
+ */
+export function purgeExpired(trash: TrashedConfig[], retentionDays: number, now: number): TrashedConfig[] {
+  const kept = trash.filter((entry) => {
+    const purgeTime = getPurgeTime(entry, retentionDays);
+    return purgeTime === null || purgeTime > now;
+  });
+  return kept.length === trash.length ? trash : kept;
+}
+
+/**
+ * Describes a retention period for display.
+ *
+ * @param retentionDays - Number of days deleted accounts are kept, or 0 to keep them until purged by hand
+ * @returns The description, e.g. "30 days"
+ */
+export function describeRetention(retentionDays: number): string {
+  if (retentionDays === 0) {
+    return 'Until emptied';
+  }
+  return retentionDays === 1 ? '1 day' : `${retentionDays} days`;
+}
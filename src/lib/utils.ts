@@ -31,13 +31,35 @@ export interface OtpAuthLabel {
  * Defines the overall structure of the parsed OTPAuth URI data.
  */
 export interface OtpAuthData {
-  type: 'totp' | 'hotp';      // OTP type
+  type: string;               // OTP type, e.g. 'totp', 'hotp' or 'steam' (for Steam Guard codes); see TokenTypeRegistry
   label: OtpAuthLabel;        // Parsed label information
   parameters: OtpAuthParameters; // Parsed query parameters
 }
 
+/**
+ * Parses a steam:// secret string (as exported by several Steam Guard tools) into OtpAuthData.
+ * The part after the scheme is the base32-encoded shared secret.
+ *
+ * @param uriString The steam:// string to parse.
+ * @returns An OtpAuthData object for a Steam account, or null if the secret is empty.
+ */
+function parseSteamUri(uriString: string): OtpAuthData | null {
+  const secret = decodeURIComponent(uriString.substring('steam://'.length)).trim();
+  if (!secret) {
+    LoggingService.error("Invalid URI: Missing secret after steam://");
+    return null;
+  }
+  return {
+    type: 'steam',
+    label: { issuer: 'Steam', account: 'Steam' },
+    parameters: { secret, issuer: 'Steam' },
+  };
+}
+
 /**
  * Parses an otpauth:// URI string into a structured OtpAuthData object.
+ * Also accepts Steam Guard accounts, either as steam:// secrets,
+ * otpauth://steam/ URIs or otpauth://totp/ URIs with an "encoder=steam" parameter.
  *
  * @param uriString The otpauth:// URI string to parse.
  * @returns An OtpAuthData object containing the parsed data, or null if parsing fails
@@ -45,6 +67,9 @@ export interface OtpAuthData {
  */
 export function parseOtpAuthUri(uriString: string): OtpAuthData | null {
   LoggingService.debug("Parsing URI:", uriString);
+  if (typeof uriString === 'string' && uriString.toLowerCase().startsWith('steam://')) {
+    return parseSteamUri(uriString);
+  }
   if (typeof uriString !== 'string' || !uriString.startsWith('otpauth://')) {
     LoggingService.error("Invalid URI: Does not start with otpauth://");
     return null;
@@ -53,13 +78,12 @@ export function parseOtpAuthUri(uriString: string): OtpAuthData | null {
   try {
     const url = new URL(uriString);
 
-    // 1. Extract Type (totp or hotp)
-    const type = url.hostname.toLowerCase();
-    if (type !== 'totp' && type !== 'hotp') {
-      LoggingService.error(`Invalid URI: Unknown type "${url.hostname}". Expected 'totp' or 'hotp'.`);
+    // 1. Extract Type (totp, hotp, steam, or an in-house type; whether it is supported is up to the token type registry)
+    let type = url.hostname.toLowerCase();
+    if (!/^[a-z][a-z0-9-]*$/.test(type)) {
+      LoggingService.error(`Invalid URI: Invalid type "${url.hostname}".`);
       return null;
     }
-    // After this check, TypeScript knows 'type' is 'totp' | 'hotp'
 
     // 2. Extract and Decode Label
     // Pathname includes the leading '/', remove it.
@@ -102,7 +126,7 @@ export function parseOtpAuthUri(uriString: string): OtpAuthData | null {
 
     for (const [key, value] of url.searchParams.entries()) {
       const lowerKey = key.toLowerCase();
-      const decodedValue = decodeURIComponent(value); // Ensure value is decoded
+      const decodedValue = value; // URLSearchParams has already percent-decoded the value
 
       switch (lowerKey) {
         case 'secret':
@@ -167,7 +191,12 @@ export function parseOtpAuthUri(uriString: string): OtpAuthData | null {
       return null;
     }
 
-    // 6. Consolidate Issuer (parameter takes precedence)
+    // 6. Steam Guard accounts are TOTP URIs marked with a Steam encoder
+    if (type === 'totp' && typeof params.encoder === 'string' && params.encoder.toLowerCase() === 'steam') {
+      type = 'steam';
+    }
+
+    // 7. Consolidate Issuer (parameter takes precedence)
     const finalIssuer = params.issuer || labelIssuer;
      // Update params.issuer if it wasn't set but labelIssuer exists
      // Note: If both exist, params.issuer already won.
@@ -175,7 +204,7 @@ export function parseOtpAuthUri(uriString: string): OtpAuthData | null {
         params.issuer = finalIssuer;
      }
 
-    // 7. Construct final result object - Cast params to OtpAuthParameters after validation
+    // 8. Construct final result object - Cast params to OtpAuthParameters after validation
     const result: OtpAuthData = {
       type: type,
       label: {
@@ -200,6 +229,92 @@ export function parseOtpAuthUri(uriString: string): OtpAuthData | null {
   }
 }
 
+/**
+ * Checks that a label can be written to an otpauth:// URI and read back unchanged.
+ * The first ':' of a label separates the issuer from the account name, so the issuer
+ * cannot contain one, and neither can the account name of a label without an issuer.
+ *
+ * @param label The issuer and account name to check.
+ * @returns Why the label cannot be written, or null if it can.
+ */
+export function getOtpAuthLabelError(label: OtpAuthData['label']): string | null {
+  if (label.issuer && label.issuer.includes(':')) {
+    return 'The issuer cannot contain ":".';
+  }
+  if (!label.issuer && label.account.includes(':')) {
+    return 'The account name cannot contain ":" unless an issuer is set.';
+  }
+  return null;
+}
+
+/** Parameters written by buildOtpAuthUri in a fixed order before any unknown parameters */
+const KNOWN_PARAMETER_KEYS = ['secret', 'issuer', 'algorithm', 'digits', 'counter', 'period'];
+
+/**
+ * Builds an otpauth:// URI from structured OtpAuthData; the inverse of parseOtpAuthUri.
+ * The label and all parameter values are percent-encoded, parameters equal to their
+ * defaults (SHA1, 6 digits, 30 second period) are omitted, and unknown parameters
+ * are preserved after the known ones.
+ * Steam accounts are written as otpauth://totp/ URIs with an "encoder=steam"
+ * parameter, the form most authenticator apps accept.
+ *
+ * Round-trip guarantee: for any data returned by parseOtpAuthUri whose label can be
+ * written (see getOtpAuthLabelError), parsing the built URI yields the same data
+ * except that default-valued parameters are dropped (and Steam accounts gain the
+ * "encoder" parameter), so
+ * buildOtpAuthUri(parseOtpAuthUri(buildOtpAuthUri(data))) equals buildOtpAuthUri(data).
+ *
+ * @param data The OTP type, label and parameters to encode.
+ * @returns The otpauth:// URI.
+ * @throws Error if the label would be read back differently (see getOtpAuthLabelError).
+ */
+export function buildOtpAuthUri(data: OtpAuthData): string {
+  const { type, label, parameters } = data;
+  const labelError = getOtpAuthLabelError(label);
+  if (labelError) {
+    throw new Error(labelError);
+  }
+
+  const host = type === 'steam' ? 'totp' : type;
+  const encodedLabel = label.issuer
+    ? `${encodeURIComponent(label.issuer)}:${encodeURIComponent(label.account)}`
+    : encodeURIComponent(label.account);
+
+  const entries: [string, string | number][] = [['secret', parameters.secret]];
+  if (parameters.issuer) {
+    entries.push(['issuer', parameters.issuer]);
+  }
+  if (parameters.algorithm && parameters.algorithm.toUpperCase() !== 'SHA1') {
+    entries.push(['algorithm', parameters.algorithm]);
+  }
+  if (parameters.digits !== undefined && parameters.digits !== 6) {
+    entries.push(['digits', parameters.digits]);
+  }
+  if (parameters.counter !== undefined) {
+    entries.push(['counter', parameters.counter]);
+  } else if (type === 'hotp') {
+    entries.push(['counter', 0]); // Required for hotp
+  }
+  if (parameters.period !== undefined && parameters.period !== 30) {
+    entries.push(['period', parameters.period]);
+  }
+  const isSteamEncoder = typeof parameters.encoder === 'string' && parameters.encoder.toLowerCase() === 'steam';
+  if (type === 'steam') {
+    entries.push(['encoder', isSteamEncoder ? parameters.encoder as string : 'steam']);
+  }
+  for (const [key, value] of Object.entries(parameters)) {
+    if (!KNOWN_PARAMETER_KEYS.includes(key) && value !== undefined && !(type === 'steam' && key === 'encoder')) {
+      entries.push([key, value]);
+    }
+  }
+
+  const query = entries
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
+    .join('&');
+
+  return `otpauth://${host}/${encodedLabel}?${query}`;
+}
+
 /**
  * Combines multiple class values into a single className string.
  * This utility merges Tailwind CSS classes properly, handling conflicts according to Tailwind's specificity rules.
@@ -1,9 +1,10 @@
 /**
  * Repository for secure storage operations.
- * Extends the LocalStorageRepository to add encryption for sensitive data.
+ * Stores items in localStorage with their sensitive data encrypted (AES-GCM with a
+ * key derived from a password), so secrets never reach storage in plaintext.
  */
 import {LocalStorageRepository, IStorageItem, IStorageRepository} from './StorageRepository';
-import { EncryptionService } from '@/services/EncryptionService';
+import { EncryptionService, KeyEncryptionResult } from '@/services/EncryptionService';
 
 /**
  * Interface for items that contain sensitive data that should be encrypted.
@@ -29,71 +30,107 @@ interface IEncryptedStorageItem extends IStorageItem {
   publicData: Record<string, any>;
 }
 
+/**
+ * Key derivation settings of a repository, stored next to its items.
+ * The check value lets a password be verified even when no items are stored.
+ */
+interface IKeyInfo {
+  /** Salt used for key derivation, as a base64 string */
+  salt: string;
+  /** Number of iterations used for key derivation */
+  iterations: number;
+  /** KEY_CHECK_VALUE encrypted with the derived key */
+  check: KeyEncryptionResult;
+}
+
+/** Known value encrypted to verify passwords */
+const KEY_CHECK_VALUE = 'otp-manager-pro';
+
+/** Number of iterations used for key derivation of new repositories */
+const KEY_ITERATIONS = 100000;
+
 /**
  * Implementation of a secure storage repository using encryption.
- * Extends the LocalStorageRepository to add encryption for sensitive data.
+ * Items are split into public data, stored as is, and sensitive data, stored encrypted.
+ * The key is derived from the password once per salt and reused for all items.
+ * Call initialize() once to set up a new repository before saving items to it.
  * 
  * @template T - The type of data stored in the repository, must extend ISecureStorageItem
  */
-export class SecureStorageRepository<T extends ISecureStorageItem> extends LocalStorageRepository<T> implements IStorageRepository<T> {
+export class SecureStorageRepository<T extends ISecureStorageItem> implements IStorageRepository<T> {
   /** The password used for encryption */
-  private password: string;
-  
+  private readonly password: string;
+  /** Storage for the encrypted items */
+  private storage: LocalStorageRepository<IEncryptedStorageItem>;
+  /** The key used to store the key derivation settings in localStorage */
+  private keyInfoStorageKey: string;
+  /** Derived keys for the current password, keyed by salt */
+  private keys: Map<string, Promise<CryptoKey>> = new Map();
+
   /**
    * Creates a new SecureStorageRepository.
    * 
    * @param storageKey - The key used to store the data in localStorage
    * @param password - The password used for encryption
    */
-  private encryptedItems: Map<string, IEncryptedStorageItem> = new Map();
-
   constructor(storageKey: string, password: string) {
-    super(storageKey);
+    this.storage = new LocalStorageRepository<IEncryptedStorageItem>(storageKey);
+    this.keyInfoStorageKey = SecureStorageRepository.getKeyInfoStorageKey(storageKey);
     this.password = password;
   }
-  
+
+  /**
+   * Checks whether a repository has been set up under a storage key.
+   * 
+   * @param storageKey - The key used to store the data in localStorage
+   * @returns True if initialize() has been called for the storage key
+   */
+  static isInitialized(storageKey: string): boolean {
+    return localStorage.getItem(this.getKeyInfoStorageKey(storageKey)) !== null;
+  }
+
   /**
-   * Sets the password used for encryption.
-   * This should be called when the user changes their password.
+   * Sets up a new repository for the current password.
    * 
-   * @param newPassword - The new password to use for encryption
+   * @returns A promise that resolves when the repository is ready to store items
+   * @throws Error if the repository has already been set up
    */
-  setPassword(newPassword: string): void {
-    this.password = newPassword;
+  async initialize(): Promise<void> {
+    if (localStorage.getItem(this.keyInfoStorageKey) !== null) {
+      throw new Error('The secure storage has already been set up.');
+    }
+    await this.writeKeyInfo();
   }
-  
+
   /**
-   * Gets all items from storage, decrypting the sensitive data.
+   * Checks whether the current password is the one the repository was set up with.
    * 
-   * @returns A promise that resolves to an array of decrypted items
+   * @returns A promise that resolves to true if the password is correct
    */
-  override async getAll(): Promise<T[]> {
+  async verifyPassword(): Promise<boolean> {
     try {
-      const items = await super.getAll();
-      const decryptedItems: T[] = [];
-
-      for (const item of items) {
-        if (this.encryptedItems.has(item.id)) {
-          try {
-            const encryptedItem = this.encryptedItems.get(item.id)!;
-            const decryptedItem = await this.decryptItem(encryptedItem);
-            decryptedItems.push(decryptedItem);
-          } catch (error) {
-            console.error(`Error decrypting item ${item.id}:`, error);
-            // Skip items that can't be decrypted (e.g., wrong password)
-          }
-        } else {
-          decryptedItems.push(item);
-        }
-      }
-
-      return decryptedItems;
+      const keyInfo = this.readKeyInfo();
+      const key = await this.getKey(keyInfo.salt, keyInfo.iterations);
+      const check = await EncryptionService.decryptWithKey(keyInfo.check.encryptedData, key, keyInfo.check.iv);
+      return check === KEY_CHECK_VALUE;
     } catch (error) {
-      console.error('Error retrieving and decrypting data:', error);
-      return [];
+      return false;
     }
   }
-  
+
+  /**
+   * Gets all items from storage, decrypting the sensitive data.
+   * Fails as a whole if any item cannot be decrypted, so that a wrong password
+   * can never cause items to be dropped on the next save.
+   * 
+   * @returns A promise that resolves to an array of decrypted items
+   * @throws Error if an item cannot be decrypted
+   */
+  async getAll(): Promise<T[]> {
+    const encryptedItems = await this.storage.getAll();
+    return Promise.all(encryptedItems.map((item) => this.decryptItem(item)));
+  }
+
   /**
    * Gets a single item by its ID, decrypting the sensitive data.
    * 
@@ -102,57 +139,122 @@ export class SecureStorageRepository<T extends ISecureStorageItem> extends Local
    */
   async getById(id: string): Promise<T | null> {
     try {
-      const item = await super.getById(id);
-      if (!item || !this.encryptedItems.has(item.id)) {
-        return null;
-      }
-
-      const encryptedItem = this.encryptedItems.get(item.id)!;
-      return this.decryptItem(encryptedItem);
+      const item = await this.storage.getById(id);
+      return item ? await this.decryptItem(item) : null;
     } catch (error) {
       console.error(`Error retrieving and decrypting item with ID ${id}:`, error);
       return null;
     }
   }
-  
+
+  /**
+   * Saves all items to storage, encrypting the sensitive data.
+   * 
+   * @param items - The array of items to save
+   * @returns A promise that resolves when the operation is complete
+   */
+  async saveAll(items: T[]): Promise<void> {
+    try {
+      const encryptedItems = await Promise.all(items.map((item) => this.encryptItem(item)));
+      await this.storage.saveAll(encryptedItems);
+    } catch (error) {
+      console.error('Error encrypting and saving data:', error);
+      throw error;
+    }
+  }
+
   /**
    * Saves a single item to storage, encrypting the sensitive data.
+   * If an item with the same ID exists, it will be updated.
    * 
    * @param item - The item to save
    * @returns A promise that resolves to the saved item
    */
   async save(item: T): Promise<T> {
     try {
-      const encryptedItem = await this.encryptItem(item);
-      this.encryptedItems.set(item.id, encryptedItem);
-      await super.save(item);
+      await this.storage.save(await this.encryptItem(item));
       return item;
     } catch (error) {
       console.error(`Error encrypting and saving item:`, error);
       throw error;
     }
   }
-  
+
   /**
-   * Saves all items to storage, encrypting the sensitive data.
+   * Removes an item from storage by its ID.
+   * 
+   * @param id - The ID of the item to remove
+   * @returns A promise that resolves to true if the item was removed, false otherwise
+   */
+  async remove(id: string): Promise<boolean> {
+    return this.storage.remove(id);
+  }
+
+  /**
+   * Clears all items from storage. The password stays set up.
    * 
-   * @param items - The array of items to save
    * @returns A promise that resolves when the operation is complete
    */
-  async saveAll(items: T[]): Promise<void> {
-    try {
-      for (const item of items) {
-        const encryptedItem = await this.encryptItem(item);
-        this.encryptedItems.set(item.id, encryptedItem);
-      }
+  async clear(): Promise<void> {
+    return this.storage.clear();
+  }
 
-      await super.saveAll(items);
-    } catch (error) {
-      console.error('Error encrypting and saving data:', error);
-      throw error;
+  /**
+   * Gets the localStorage key of the key derivation settings for a storage key.
+   * 
+   * @param storageKey - The key used to store the data in localStorage
+   * @returns The key used to store the key derivation settings
+   */
+  private static getKeyInfoStorageKey(storageKey: string): string {
+    return `${storageKey}Key`;
+  }
+
+  /**
+   * Reads the key derivation settings of the repository.
+   * 
+   * @returns The key derivation settings
+   * @throws Error if the repository has not been set up
+   */
+  private readKeyInfo(): IKeyInfo {
+    const stored = localStorage.getItem(this.keyInfoStorageKey);
+    if (stored === null) {
+      throw new Error('The secure storage has not been set up.');
     }
+    return JSON.parse(stored);
   }
-  
+
+  /**
+   * Writes new key derivation settings, with a fresh salt, for the current password.
+   * 
+   * @returns A promise that resolves when the settings are stored
+   */
+  private async writeKeyInfo(): Promise<void> {
+    const salt = EncryptionService.generateSalt();
+    const key = await this.getKey(salt, KEY_ITERATIONS);
+    const keyInfo: IKeyInfo = {
+      salt,
+      iterations: KEY_ITERATIONS,
+      check: await EncryptionService.encryptWithKey(KEY_CHECK_VALUE, key),
+    };
+    localStorage.setItem(this.keyInfoStorageKey, JSON.stringify(keyInfo));
+  }
+
+  /**
+   * Gets the key for the current password and a salt, deriving it only once.
+   * 
+   * @param salt - The salt, as a base64 string
+   * @param iterations - The number of iterations for key derivation
+   * @returns A promise that resolves to the derived key
+   */
+  private getKey(salt: string, iterations: number): Promise<CryptoKey> {
+    let key = this.keys.get(salt);
+    if (!key) {
+      key = EncryptionService.deriveKeyFromPassword(this.password, salt, iterations);
+      this.keys.set(salt, key);
+    }
+    return key;
+  }
+
   /**
    * Encrypts an item's sensitive data.
    * 
@@ -162,47 +264,45 @@ export class SecureStorageRepository<T extends ISecureStorageItem> extends Local
   private async encryptItem(item: T): Promise<IEncryptedStorageItem> {
     // Extract sensitive data and public data
     const { sensitiveData, id, ...publicData } = item;
-    
-    // Convert sensitive data to JSON string
-    const sensitiveDataString = JSON.stringify(sensitiveData);
-    
-    // Encrypt sensitive data
-    const encryptionResult = await EncryptionService.encrypt(
-      sensitiveDataString,
-      this.password
-    );
-    
+
+    // Encrypt sensitive data with the repository's key
+    const { salt, iterations } = this.readKeyInfo();
+    const key = await this.getKey(salt, iterations);
+    const encryptionResult = await EncryptionService.encryptWithKey(JSON.stringify(sensitiveData), key);
+
     // Return encrypted item
     return {
       id,
       encryptedData: encryptionResult.encryptedData,
-      salt: encryptionResult.salt,
+      salt,
       iv: encryptionResult.iv,
       publicData
     };
   }
-  
+
   /**
    * Decrypts an item's sensitive data.
    * 
    * @param encryptedItem - The encrypted item to decrypt
    * @returns A promise that resolves to the decrypted item
+   * @throws Error if the password is wrong or the item was tampered with
    */
   private async decryptItem(encryptedItem: IEncryptedStorageItem): Promise<T> {
     // Extract encrypted data
     const { id, encryptedData, salt, iv, publicData } = encryptedItem;
-    
+
     // Decrypt sensitive data
-    const decryptedDataString = await EncryptionService.decrypt(
-      encryptedData,
-      this.password,
-      salt,
-      iv
-    );
-    
+    const key = await this.getKey(salt, this.readKeyInfo().iterations);
+    let decryptedDataString: string;
+    try {
+      decryptedDataString = await EncryptionService.decryptWithKey(encryptedData, key, iv);
+    } catch (error) {
+      throw new Error(`Failed to decrypt item ${id}. The password may be incorrect.`);
+    }
+
     // Parse decrypted data
     const sensitiveData = JSON.parse(decryptedDataString);
-    
+
     // Return decrypted item
     return {
       id,
@@ -210,4 +310,4 @@ export class SecureStorageRepository<T extends ISecureStorageItem> extends Local
       ...publicData
     } as T;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,232 @@
+/**
+ * Token types that ship with the OTP Manager Pro application.
+ * Each definition is registered by TokenTypeRegistry; see docs/token-types.md
+ * for how to add in-house types alongside them.
+ */
+import type { OTPConfig } from '@/lib/otp-config';
+import type { OtpAuthData } from '@/lib/utils';
+import type { TokenField, TokenTypeDefinition } from '@/services/TokenTypeRegistry';
+import { OTPService } from '@/services/OTPService';
+
+/** HMAC algorithm setting shared by TOTP and HOTP */
+const ALGORITHM_FIELD: TokenField = {
+  key: 'algorithm',
+  label: 'Algorithm',
+  kind: 'select',
+  defaultValue: 'sha1',
+  options: [
+    { value: 'sha1', label: 'SHA1' },
+    { value: 'sha256', label: 'SHA256' },
+    { value: 'sha512', label: 'SHA512' },
+  ],
+};
+
+/** Number of digits setting shared by TOTP and HOTP */
+const DIGITS_FIELD: TokenField = {
+  key: 'digits',
+  label: 'Digits',
+  kind: 'select',
+  defaultValue: 6,
+  options: [
+    { value: 6, label: '6' },
+    { value: 7, label: '7' },
+    { value: 8, label: '8' },
+  ],
+};
+
+/** Counter setting shared by HOTP and OCRA */
+const COUNTER_FIELD: TokenField = {
+  key: 'counter',
+  label: 'Counter',
+  kind: 'number',
+  defaultValue: 0,
+  min: 0,
+};
+
+/** Per-account time offset setting shared by all time-based types */
+const TIME_OFFSET_FIELD: TokenField = {
+  key: 'timeOffset',
+  label: 'Time offset (s)',
+  kind: 'number',
+  defaultValue: 0,
+};
+
+/**
+ * Builds the otpauth:// label for a configuration.
+ * 
+ * @param config - The configuration
+ * @returns The label with the issuer, if any, and the account name
+ */
+function toLabel(config: OTPConfig): OtpAuthData['label'] {
+  return { issuer: config.issuer || null, account: config.accountName };
+}
+
+/**
+ * Gets the RFC 6238 parameters of a TOTP configuration.
+ * 
+ * @param config - The configuration
+ * @returns The secret and generation settings
+ */
+function toTOTPParams(config: OTPConfig) {
+  return {
+    secret: config.secretKey,
+    algorithm: config.algorithm,
+    digits: config.digits,
+    period: config.period,
+  };
+}
+
+/**
+ * Standard time-based codes (RFC 6238).
+ */
+const TOTP: TokenTypeDefinition = {
+  id: 'totp',
+  label: 'Time-based (TOTP)',
+  secretFormat: 'key',
+  fields: [
+    ALGORITHM_FIELD,
+    DIGITS_FIELD,
+    { key: 'period', label: 'Period (s)', kind: 'number', defaultValue: 30, min: 1 },
+    TIME_OFFSET_FIELD,
+  ],
+  getPeriod: (config) => config.period ?? 30,
+  generate: async (config, { timestamp, stepOffset }) => {
+    const { code } = await OTPService.computeTOTP({
+      ...toTOTPParams(config),
+      timestamp,
+      stepOffset,
+    });
+    return code;
+  },
+  toTOTPParams,
+  fromUri: ({ parameters }) => ({
+    algorithm: OTPService.toHashAlgorithm(parameters.algorithm) ?? 'sha1',
+    digits: parameters.digits ?? 6,
+    period: parameters.period ?? 30,
+  }),
+  toUri: (config) => ({
+    type: 'totp',
+    label: toLabel(config),
+    parameters: {
+      secret: config.secretKey,
+      issuer: config.issuer,
+      algorithm: config.algorithm?.toUpperCase(),
+      digits: config.digits,
+      period: config.period,
+    },
+  }),
+};
+
+/**
+ * Counter-based codes (RFC 4226), advanced by the user.
+ */
+const HOTP: TokenTypeDefinition = {
+  id: 'hotp',
+  label: 'Counter-based (HOTP)',
+  secretFormat: 'key',
+  fields: [COUNTER_FIELD, ALGORITHM_FIELD, DIGITS_FIELD],
+  generate: (config) =>
+    OTPService.computeHOTP(config.secretKey, config.counter ?? 0, {
+      algorithm: config.algorithm,
+      digits: config.digits,
+    }),
+  manualCounter: true,
+  describe: (config) => `Counter: ${config.counter ?? 0}`,
+  fromUri: ({ parameters }) => ({
+    counter: parameters.counter ?? 0,
+    algorithm: OTPService.toHashAlgorithm(parameters.algorithm) ?? 'sha1',
+    digits: parameters.digits ?? 6,
+  }),
+  toUri: (config) => ({
+    type: 'hotp',
+    label: toLabel(config),
+    parameters: {
+      secret: config.secretKey,
+      issuer: config.issuer,
+      counter: config.counter ?? 0,
+      algorithm: config.algorithm?.toUpperCase(),
+      digits: config.digits,
+    },
+  }),
+};
+
+/**
+ * Steam Guard's 5-character time-based codes.
+ */
+const STEAM: TokenTypeDefinition = {
+  id: 'steam',
+  label: 'Steam Guard',
+  badge: 'Steam Guard',
+  codeClassName: 'font-mono tracking-widest',
+  secretFormat: 'key',
+  fields: [TIME_OFFSET_FIELD],
+  getPeriod: () => 30,
+  generate: async (config, { timestamp, stepOffset }) => {
+    const { code } = await OTPService.computeSteamTOTP({ secret: config.secretKey, timestamp, stepOffset });
+    return code;
+  },
+  fromUri: () => ({}),
+  toUri: (config) => ({
+    type: 'steam',
+    label: toLabel(config),
+    parameters: { secret: config.secretKey, issuer: config.issuer, encoder: 'steam' },
+  }),
+};
+
+/**
+ * Mobile-OTP's PIN-based 10 second codes. The init-secret is used as text.
+ */
+const MOTP: TokenTypeDefinition = {
+  id: 'motp',
+  label: 'Mobile-OTP (mOTP)',
+  badge: 'Mobile-OTP',
+  secretFormat: 'text',
+  fields: [{ key: 'pin', label: 'PIN', kind: 'password', defaultValue: '' }, TIME_OFFSET_FIELD],
+  validate: (config) => {
+    if (!config.pin) {
+      throw new Error('PIN cannot be empty for Mobile-OTP configurations.');
+    }
+  },
+  getPeriod: () => 10,
+  generate: (config, { timestamp, stepOffset }) =>
+    OTPService.computeMOTP({ secret: config.secretKey, pin: config.pin ?? '', timestamp, stepOffset }).code,
+};
+
+/**
+ * Challenge-response codes (RFC 6287), computed when the user enters a challenge.
+ */
+const OCRA: TokenTypeDefinition = {
+  id: 'ocra',
+  label: 'Challenge-response (OCRA)',
+  secretFormat: 'key',
+  fields: [
+    { key: 'ocraSuite', label: 'OCRA Suite', kind: 'text', defaultValue: '', placeholder: 'OCRA-1:HOTP-SHA1-6:QN08' },
+    COUNTER_FIELD,
+    { key: 'pin', label: 'Password', kind: 'password', defaultValue: '' },
+  ],
+  validate: (config) => {
+    const suite = OTPService.parseOCRASuite((config.ocraSuite ?? '').trim());
+    // There is no field for session information, so its responses would silently be wrong
+    if (suite.sessionLength !== undefined) {
+      throw new Error('OCRA suites with session information (S) are not supported.');
+    }
+  },
+  respond: async (config, challenge, timestamp) => {
+    const suite = OTPService.parseOCRASuite((config.ocraSuite ?? '').trim());
+    const code = await OTPService.computeOCRA({
+      secret: config.secretKey,
+      suite: suite.suite,
+      challenge,
+      counter: config.counter ?? 0,
+      password: config.pin ?? '',
+      timestamp,
+    });
+    return { code, usedCounter: suite.counter };
+  },
+  describe: (config) => config.ocraSuite,
+};
+
+/**
+ * The built-in token types, in the order they are offered in the editor.
+ */
+export const BUILT_IN_TOKEN_TYPES: TokenTypeDefinition[] = [TOTP, HOTP, STEAM, MOTP, OCRA];
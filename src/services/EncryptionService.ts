@@ -27,6 +27,16 @@ export interface EncryptionResult {
   iv: string;
 }
 
+/**
+ * Result of an encryption operation with an already derived key.
+ */
+export interface KeyEncryptionResult {
+  /** The encrypted data as a base64 string */
+  encryptedData: string;
+  /** The initialization vector used for encryption, as a base64 string */
+  iv: string;
+}
+
 /**
  * Service class that provides methods for encrypting and decrypting sensitive data.
  * Uses the Web Crypto API for secure cryptographic operations.
@@ -72,24 +82,10 @@ export class EncryptionService {
         options.iterations || this.DEFAULT_ITERATIONS
       );
       
-      // Encode data to ArrayBuffer
-      const encodedData = new TextEncoder().encode(data);
-      
-      // Encrypt data
-      const encryptedBuffer = await window.crypto.subtle.encrypt(
-        {
-          name: this.ENCRYPTION_ALGORITHM,
-          iv
-        },
-        key,
-        encodedData
-      );
-      
-      // Convert results to base64 for storage
+      // Encrypt data and convert results to base64 for storage
       return {
-        encryptedData: this.arrayBufferToBase64(encryptedBuffer),
-        salt: this.arrayBufferToBase64(salt),
-        iv: this.arrayBufferToBase64(iv)
+        ...(await this.encryptWithKey(data, key, iv)),
+        salt: this.arrayBufferToBase64(salt)
       };
     } catch (error) {
       console.error('Encryption error:', error);
@@ -115,31 +111,92 @@ export class EncryptionService {
     iterations: number = this.DEFAULT_ITERATIONS
   ): Promise<string> {
     try {
-      // Convert base64 strings to ArrayBuffers
-      const encryptedBuffer = this.base64ToArrayBuffer(encryptedData);
-      const saltBuffer = this.base64ToArrayBuffer(salt);
-      const ivBuffer = this.base64ToArrayBuffer(iv);
-      
       // Derive key from password
-      const key = await this.deriveKey(password, saltBuffer, iterations);
+      const key = await this.deriveKey(password, this.base64ToArrayBuffer(salt), iterations);
       
       // Decrypt data
-      const decryptedBuffer = await window.crypto.subtle.decrypt(
-        {
-          name: this.ENCRYPTION_ALGORITHM,
-          iv: ivBuffer
-        },
-        key,
-        encryptedBuffer
-      );
-      
-      // Decode data from ArrayBuffer
-      return new TextDecoder().decode(decryptedBuffer);
+      return await this.decryptWithKey(encryptedData, key, iv);
     } catch (error) {
       console.error('Decryption error:', error);
       throw new Error('Failed to decrypt data. The password may be incorrect.');
     }
   }
+
+  /**
+   * Generates a random salt for key derivation.
+   * 
+   * @returns The salt as a base64 string
+   */
+  static generateSalt(): string {
+    return this.arrayBufferToBase64(this.generateRandomBytes(this.SALT_LENGTH));
+  }
+
+  /**
+   * Derives an encryption key from a password once, so that many items can be
+   * encrypted and decrypted without repeating the (deliberately slow) key derivation.
+   * 
+   * @param password - The password to derive the key from
+   * @param salt - The salt to use for key derivation, as a base64 string
+   * @param iterations - The number of iterations for key derivation (default: 100000)
+   * @returns A promise that resolves to the derived key
+   */
+  static async deriveKeyFromPassword(
+    password: string,
+    salt: string,
+    iterations: number = this.DEFAULT_ITERATIONS
+  ): Promise<CryptoKey> {
+    return this.deriveKey(password, this.base64ToArrayBuffer(salt), iterations);
+  }
+
+  /**
+   * Encrypts data with a derived key.
+   * 
+   * @param data - The data to encrypt
+   * @param key - The key to encrypt with, from deriveKeyFromPassword
+   * @param iv - Initialization vector (optional, will be generated if not provided)
+   * @returns A promise that resolves to the encrypted data and the initialization vector
+   */
+  static async encryptWithKey(
+    data: string,
+    key: CryptoKey,
+    iv: Uint8Array = this.generateRandomBytes(this.IV_LENGTH)
+  ): Promise<KeyEncryptionResult> {
+    const encryptedBuffer = await window.crypto.subtle.encrypt(
+      {
+        name: this.ENCRYPTION_ALGORITHM,
+        iv
+      },
+      key,
+      new TextEncoder().encode(data)
+    );
+    
+    return {
+      encryptedData: this.arrayBufferToBase64(encryptedBuffer),
+      iv: this.arrayBufferToBase64(iv)
+    };
+  }
+
+  /**
+   * Decrypts data with a derived key.
+   * 
+   * @param encryptedData - The encrypted data as a base64 string
+   * @param key - The key the data was encrypted with, from deriveKeyFromPassword
+   * @param iv - The initialization vector used for encryption, as a base64 string
+   * @returns A promise that resolves to the decrypted data
+   * @throws Error if the key is wrong or the data was tampered with
+   */
+  static async decryptWithKey(encryptedData: string, key: CryptoKey, iv: string): Promise<string> {
+    const decryptedBuffer = await window.crypto.subtle.decrypt(
+      {
+        name: this.ENCRYPTION_ALGORITHM,
+        iv: this.base64ToArrayBuffer(iv)
+      },
+      key,
+      this.base64ToArrayBuffer(encryptedData)
+    );
+    
+    return new TextDecoder().decode(decryptedBuffer);
+  }
   
   /**
    * Derives a cryptographic key from a password.
@@ -1,10 +1,16 @@
 /**
  * Service class for OTP (One-Time Password) operations.
  * Provides methods for generating and validating OTP codes.
+ * All computations are pure functions of their inputs built on Web Crypto HMAC,
+ * so they behave identically in the browser, Node and workers.
  */
-import { authenticator, totp } from 'otplib';
+import { decodeBase32, encodeBase32 } from '@/lib/base32';
+import { md5Hex } from '@/lib/md5';
 
-type HashAlgorithms = 'sha1' | 'sha256' | 'sha512';
+/**
+ * HMAC hash algorithms supported for OTP generation.
+ */
+export type HashAlgorithms = 'sha1' | 'sha256' | 'sha512';
 
 /**
  * Options for OTP generation.
@@ -20,71 +26,572 @@ export interface OTPOptions {
   prefix?: string;
   /** Text to add after the OTP */
   postfix?: string;
+  /** Moment to generate time-based codes for, in milliseconds since the epoch (default: now) */
+  timestamp?: number;
+  /** Number of time steps after the one containing timestamp to generate the code for, e.g. 1 for the next code (default: 0) */
+  stepOffset?: number;
+}
+
+/**
+ * Input for a single time-based code computation.
+ */
+export interface TOTPParams {
+  /** The base32-encoded secret key */
+  secret: string;
+  /** Algorithm to use (default: 'sha1') */
+  algorithm?: HashAlgorithms;
+  /** Number of digits in the OTP (default: 6) */
+  digits?: number;
+  /** Time step in seconds (default: 30) */
+  period?: number;
+  /** Moment to compute the code for, in milliseconds since the epoch (default: now) */
+  timestamp?: number;
+  /** Number of time steps after the one containing timestamp to compute the code for (default: 0) */
+  stepOffset?: number;
+}
+
+/**
+ * Result of a time-based code computation.
+ */
+export interface TOTPResult {
+  /** The generated code */
+  code: string;
+  /** The time step counter the code was generated for */
+  step: number;
+  /** Start of the code's validity window, in milliseconds since the epoch */
+  validFrom: number;
+  /** End (exclusive) of the code's validity window, in milliseconds since the epoch */
+  validUntil: number;
+}
+
+/**
+ * Input for verifying a time-based code.
+ */
+export interface TOTPVerifyParams extends Omit<TOTPParams, 'stepOffset'> {
+  /** The code to verify, without prefix or postfix */
+  token: string;
+  /** Number of time steps before and after the current one that are also accepted (default: 1) */
+  window?: number;
+  /** Time step counters that were already used and must be rejected as replays (default: none) */
+  usedSteps?: number[];
+}
+
+/**
+ * Result of verifying a time-based code.
+ */
+export interface TOTPVerifyResult {
+  /** Whether the code matched a step within the window that had not been used before */
+  valid: boolean;
+  /** Offset of the matching step from the current one (-window..+window), or null if nothing matched */
+  delta: number | null;
+  /** The time step counter that matched, or null if nothing matched */
+  step: number | null;
+  /** Whether the code matched a step that was already used */
+  replayed: boolean;
+}
+
+/**
+ * Input for listing or searching the time-based codes in a time range.
+ */
+export interface TOTPRangeParams extends Omit<TOTPParams, 'timestamp' | 'stepOffset'> {
+  /** Start of the range, in milliseconds since the epoch */
+  from: number;
+  /** End of the range (inclusive), in milliseconds since the epoch */
+  to: number;
 }
 
+/**
+ * Parsed form of an OCRA suite string such as "OCRA-1:HOTP-SHA1-6:QN08" (RFC 6287).
+ */
+export interface OCRASuite {
+  /** The original suite string, which is also part of the HMAC input */
+  suite: string;
+  /** HMAC algorithm of the crypto function */
+  algorithm: HashAlgorithms;
+  /** Number of digits in the response, or 0 for the untruncated HMAC in hex */
+  digits: number;
+  /** Whether a counter (C) is part of the input */
+  counter: boolean;
+  /** Challenge (Q) format: alphanumeric, numeric or hexadecimal */
+  challengeFormat: 'A' | 'N' | 'H';
+  /** Maximum challenge length in characters */
+  challengeLength: number;
+  /** Hash algorithm applied to the password (P), if a password is part of the input */
+  passwordHash?: HashAlgorithms;
+  /** Length in bytes of the session information (S), if session information is part of the input */
+  sessionLength?: number;
+  /** Timestamp (T) step in seconds, if a timestamp is part of the input */
+  timeStep?: number;
+}
+
+/**
+ * Input for an OCRA challenge-response computation.
+ */
+export interface OCRAParams {
+  /** The base32-encoded secret key */
+  secret: string;
+  /** The OCRA suite string */
+  suite: string;
+  /** The challenge shown to the user */
+  challenge: string;
+  /** Counter value (required when the suite includes C) */
+  counter?: number;
+  /** Password or PIN (required when the suite includes P) */
+  password?: string;
+  /** Session information as a hex string (used when the suite includes S) */
+  sessionInfo?: string;
+  /** Moment to compute the response for, in milliseconds since the epoch (default: now) */
+  timestamp?: number;
+}
+
+/**
+ * Alphabet used by Steam Guard codes (digits and letters that are hard to confuse).
+ */
+const STEAM_ALPHABET = '23456789BCDFGHJKMNPQRTVWXY';
+
+/** Number of characters in a Steam Guard code */
+const STEAM_CODE_LENGTH = 5;
+
+/** Time step in seconds used by Mobile-OTP (mOTP) tokens */
+const MOTP_PERIOD = 10;
+
+/** Number of hex characters in a Mobile-OTP (mOTP) code */
+const MOTP_CODE_LENGTH = 6;
+
+/** Maximum number of time steps listed by listTOTPCodes */
+const MAX_LIST_STEPS = 1000;
+
+/** Maximum number of time steps searched by findTOTPCode (a week of 30 second steps) */
+const MAX_SEARCH_STEPS = 20160;
+
+/**
+ * Maps supported algorithms to their Web Crypto names.
+ */
+const WEB_CRYPTO_HASHES: Record<HashAlgorithms, string> = {
+  sha1: 'SHA-1',
+  sha256: 'SHA-256',
+  sha512: 'SHA-512',
+};
+
 /**
  * Service class that provides methods for working with One-Time Passwords (OTP).
  * Encapsulates the logic for generating and validating OTP codes.
+ * The service holds no state, so codes for accounts with different settings never interfere.
  */
 export class OTPService {
+  /**
+   * Computes a time-based code and its validity window (RFC 6238).
+   * 
+   * @param params - The secret, generation settings and moment to compute the code for
+   * @returns A promise that resolves to the code and its validity window
+   */
+  static async computeTOTP(params: TOTPParams): Promise<TOTPResult> {
+    const { secret, algorithm = 'sha1', digits = 6, period = 30, timestamp = Date.now(), stepOffset = 0 } = params;
+    const periodMs = period * 1000;
+    const step = Math.floor(timestamp / periodMs) + stepOffset;
+
+    const code = await this.computeHOTP(secret, step, { algorithm, digits });
+
+    return {
+      code,
+      step,
+      validFrom: step * periodMs,
+      validUntil: (step + 1) * periodMs,
+    };
+  }
+
+  /**
+   * Computes a counter-based code (RFC 4226).
+   * 
+   * @param secret - The base32-encoded secret key
+   * @param counter - The moving factor
+   * @param options - The algorithm and number of digits to use
+   * @returns A promise that resolves to the generated code
+   */
+  static async computeHOTP(
+    secret: string,
+    counter: number,
+    options: Pick<OTPOptions, 'algorithm' | 'digits'> = {}
+  ): Promise<string> {
+    const { algorithm = 'sha1', digits = 6 } = options;
+    const binary = await this.truncatedHmac(secret, counter, algorithm);
+
+    return (binary % 10 ** digits).toString().padStart(digits, '0');
+  }
+
+  /**
+   * Computes a Steam Guard code and its validity window.
+   * Steam uses SHA1 TOTP with a 30 second period, but renders the truncated
+   * value as 5 characters from its own alphabet instead of decimal digits.
+   * 
+   * @param params - The secret and time step to compute the code for
+   * @returns A promise that resolves to the code and its validity window
+   */
+  static async computeSteamTOTP(params: Pick<TOTPParams, 'secret' | 'timestamp' | 'stepOffset'>): Promise<TOTPResult> {
+    const { secret, timestamp = Date.now(), stepOffset = 0 } = params;
+    const periodMs = 30 * 1000;
+    const step = Math.floor(timestamp / periodMs) + stepOffset;
+
+    let binary = await this.truncatedHmac(secret, step, 'sha1');
+    let code = '';
+    for (let i = 0; i < STEAM_CODE_LENGTH; i++) {
+      code += STEAM_ALPHABET[binary % STEAM_ALPHABET.length];
+      binary = Math.floor(binary / STEAM_ALPHABET.length);
+    }
+
+    return {
+      code,
+      step,
+      validFrom: step * periodMs,
+      validUntil: (step + 1) * periodMs,
+    };
+  }
+
   /**
    * Generates a Time-based One-Time Password (TOTP) using the provided secret key.
+   * This is the single generation path for time-based codes, so per-account
+   * digits, step and algorithm must always be passed through.
    * 
-   * @param secret - The secret key used to generate the OTP
+   * @param secret - The base32-encoded secret key used to generate the OTP
    * @param options - Optional configuration for OTP generation
-   * @returns The generated OTP with optional prefix and postfix
-   */
-  static generateTOTP(secret: string, options: OTPOptions = {}): string {
-    const { prefix = '', postfix = '', digits = 6, step = 30, algorithm = 'sha1' } = options;
-    
-    // Configure the TOTP options
-    // @ts-ignore
-    totp.options = {
-      digits,
+   * @returns A promise that resolves to the generated OTP with optional prefix and postfix
+   */
+  static async generateTOTP(secret: string, options: OTPOptions = {}): Promise<string> {
+    const { prefix = '', postfix = '', digits, step, algorithm, timestamp, stepOffset } = options;
+
+    const { code } = await this.computeTOTP({ secret, algorithm, digits, period: step, timestamp, stepOffset });
+
+    // Return the token with an optional prefix and postfix
+    return `${prefix}${code}${postfix}`;
+  }
+
+  /**
+   * Computes a Mobile-OTP (mOTP) code and its validity window.
+   * mOTP codes are the first 6 hex characters of MD5(epoch / 10 + secret + PIN)
+   * and change every 10 seconds.
+   * 
+   * @param params - The init-secret (used as text, not base32), PIN and time step to compute the code for
+   * @returns The code and its validity window
+   */
+  static computeMOTP(params: { secret: string; pin: string; timestamp?: number; stepOffset?: number }): TOTPResult {
+    const { secret, pin, timestamp = Date.now(), stepOffset = 0 } = params;
+    const periodMs = MOTP_PERIOD * 1000;
+    const step = Math.floor(timestamp / periodMs) + stepOffset;
+
+    const code = md5Hex(`${step}${secret}${pin}`).substring(0, MOTP_CODE_LENGTH);
+
+    return {
+      code,
       step,
-      algorithm,
+      validFrom: step * periodMs,
+      validUntil: (step + 1) * periodMs,
     };
-    
-    // Generate the token
-    const token = totp.generate(secret);
-    
+  }
+
+  /**
+   * Generates a Mobile-OTP (mOTP) code using the provided init-secret and PIN.
+   * 
+   * @param secret - The mOTP init-secret
+   * @param pin - The PIN entered on the token
+   * @param options - Optional prefix, postfix, timestamp and step offset (mOTP fixes all other settings)
+   * @returns The generated code with optional prefix and postfix
+   */
+  static generateMOTP(
+    secret: string,
+    pin: string,
+    options: Pick<OTPOptions, 'prefix' | 'postfix' | 'timestamp' | 'stepOffset'> = {}
+  ): string {
+    const { prefix = '', postfix = '', timestamp, stepOffset } = options;
+
+    const { code } = this.computeMOTP({ secret, pin, timestamp, stepOffset });
+
     // Return the token with an optional prefix and postfix
-    return `${prefix}${token}${postfix}`;
+    return `${prefix}${code}${postfix}`;
   }
-  
+
+  /**
+   * Generates a Steam Guard code using the provided secret key.
+   * 
+   * @param secret - The base32-encoded secret key used to generate the code
+   * @param options - Optional prefix, postfix, timestamp and step offset (Steam fixes all other settings)
+   * @returns A promise that resolves to the generated code with optional prefix and postfix
+   */
+  static async generateSteamTOTP(
+    secret: string,
+    options: Pick<OTPOptions, 'prefix' | 'postfix' | 'timestamp' | 'stepOffset'> = {}
+  ): Promise<string> {
+    const { prefix = '', postfix = '', timestamp, stepOffset } = options;
+
+    const { code } = await this.computeSteamTOTP({ secret, timestamp, stepOffset });
+
+    // Return the token with an optional prefix and postfix
+    return `${prefix}${code}${postfix}`;
+  }
+
   /**
    * Validates a Time-based One-Time Password (TOTP) against the provided secret key.
+   * Only the code for the requested time step is accepted; use verifyTOTP for a skew window.
+   * 
+   * @param token - The OTP token to validate
+   * @param secret - The secret key used to generate the OTP
+   * @param options - Optional configuration for OTP validation
+   * @returns A promise that resolves to true if the token is valid, false otherwise
+   */
+  static async validateTOTP(token: string, secret: string, options: Omit<OTPOptions, 'prefix' | 'postfix'> = {}): Promise<boolean> {
+    const { digits, step, algorithm, timestamp, stepOffset } = options;
+
+    const { code } = await this.computeTOTP({ secret, algorithm, digits, period: step, timestamp, stepOffset });
+
+    return code === token;
+  }
+
+  /**
+   * Verifies a Time-based One-Time Password (TOTP) the way a server would (RFC 6238 section 5.2).
+   * Steps are checked from the current one outwards, so the closest match within
+   * the window wins. A match on a step listed in usedSteps is reported as a replay
+   * and is not valid; callers that want replay protection must record the returned
+   * step after a successful verification.
+   * 
+   * @param params - The code to verify, the secret, generation settings, window and used steps
+   * @returns A promise that resolves to the verification result
+   */
+  static async verifyTOTP(params: TOTPVerifyParams): Promise<TOTPVerifyResult> {
+    const { token, secret, algorithm = 'sha1', digits = 6, period = 30, timestamp = Date.now(), window = 1, usedSteps = [] } = params;
+    const currentStep = Math.floor(timestamp / (period * 1000));
+
+    for (let distance = 0; distance <= window; distance++) {
+      for (const delta of distance === 0 ? [0] : [-distance, distance]) {
+        const step = currentStep + delta;
+        const code = await this.computeHOTP(secret, step, { algorithm, digits });
+        if (code === token) {
+          const replayed = usedSteps.includes(step);
+          return { valid: !replayed, delta, step, replayed };
+        }
+      }
+    }
+
+    return { valid: false, delta: null, step: null, replayed: false };
+  }
+
+  /**
+   * Lists the time-based codes for every time step that overlaps a time range.
+   * Used to find out which code was valid at a given moment, e.g. from a server log.
+   * 
+   * @param params - The secret, generation settings and time range
+   * @returns A promise that resolves to the codes and their validity windows, oldest first
+   * @throws Error if the range is reversed or spans more than 1000 time steps
+   */
+  static async listTOTPCodes(params: TOTPRangeParams): Promise<TOTPResult[]> {
+    const { period = 30 } = params;
+    const [firstStep, lastStep] = this.stepRange(params.from, params.to, period, MAX_LIST_STEPS);
+
+    const results: TOTPResult[] = [];
+    for (let step = firstStep; step <= lastStep; step++) {
+      results.push(await this.computeTOTP({ ...params, timestamp: step * period * 1000 }));
+    }
+    return results;
+  }
+
+  /**
+   * Searches a time range for the time steps that produce a given code.
+   * Codes repeat by chance (one in a million for 6 digits), so searching a long
+   * range can find several steps; all of them are returned.
+   * 
+   * @param params - The code to search for, the secret, generation settings and time range
+   * @returns A promise that resolves to the matching codes and their validity windows, oldest first
+   * @throws Error if the range is reversed or spans more than 20160 time steps
+   */
+  static async findTOTPCode(params: TOTPRangeParams & { token: string }): Promise<TOTPResult[]> {
+    const { token, period = 30 } = params;
+    const [firstStep, lastStep] = this.stepRange(params.from, params.to, period, MAX_SEARCH_STEPS);
+
+    const results: TOTPResult[] = [];
+    for (let step = firstStep; step <= lastStep; step++) {
+      const result = await this.computeTOTP({ ...params, timestamp: step * period * 1000 });
+      if (result.code === token) {
+        results.push(result);
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Generates an HMAC-based One-Time Password (HOTP) for the given counter value.
+   * 
+   * @param secret - The base32-encoded secret key used to generate the OTP
+   * @param counter - The moving factor; callers must increment it after each use
+   * @param options - Optional configuration for OTP generation (step is ignored)
+   * @returns A promise that resolves to the generated OTP with optional prefix and postfix
+   */
+  static async generateHOTP(secret: string, counter: number, options: Omit<OTPOptions, 'step' | 'timestamp' | 'stepOffset'> = {}): Promise<string> {
+    const { prefix = '', postfix = '', digits, algorithm } = options;
+
+    const token = await this.computeHOTP(secret, counter, { digits, algorithm });
+
+    // Return the token with an optional prefix and postfix
+    return `${prefix}${token}${postfix}`;
+  }
+
+  /**
+   * Validates an HMAC-based One-Time Password (HOTP) against the provided secret key and counter.
    * 
    * @param token - The OTP token to validate
    * @param secret - The secret key used to generate the OTP
+   * @param counter - The counter value the token is expected to be generated for
    * @param options - Optional configuration for OTP validation
-   * @returns True if the token is valid, false otherwise
-   */
-  static validateTOTP(token: string, secret: string, options: Omit<OTPOptions, 'prefix' | 'postfix'> = {}): boolean {
-    const { digits = 6, step = 30, algorithm = 'sha1' } = options;
-    
-    // Configure the TOTP options
-    // @ts-ignore
-    totp.options = {
+   * @returns A promise that resolves to true if the token is valid, false otherwise
+   */
+  static async validateHOTP(token: string, secret: string, counter: number, options: Omit<OTPOptions, 'prefix' | 'postfix' | 'step' | 'timestamp' | 'stepOffset'> = {}): Promise<boolean> {
+    const { digits, algorithm } = options;
+
+    return (await this.computeHOTP(secret, counter, { digits, algorithm })) === token;
+  }
+
+  /**
+   * Parses an OCRA suite string (RFC 6287), e.g. "OCRA-1:HOTP-SHA1-6:QN08" or
+   * "OCRA-1:HOTP-SHA256-8:C-QN08-PSHA1".
+   * 
+   * @param suite - The OCRA suite string
+   * @returns The parsed suite
+   * @throws Error if the suite is malformed or uses unsupported options
+   */
+  static parseOCRASuite(suite: string): OCRASuite {
+    const [version, cryptoFunction, dataInput] = suite.split(':');
+    if (version !== 'OCRA-1' || !cryptoFunction || !dataInput) {
+      throw new Error(`Invalid OCRA suite "${suite}". Expected "OCRA-1:<crypto function>:<data input>".`);
+    }
+
+    const cryptoMatch = /^HOTP-(SHA1|SHA256|SHA512)-(\d+)$/i.exec(cryptoFunction);
+    if (!cryptoMatch) {
+      throw new Error(`Invalid OCRA crypto function "${cryptoFunction}".`);
+    }
+    const digits = parseInt(cryptoMatch[2], 10);
+    if (digits !== 0 && (digits < 4 || digits > 10)) {
+      throw new Error(`Invalid OCRA response length ${digits}. Expected 0 or 4-10.`);
+    }
+
+    const parsed: Partial<OCRASuite> = {
+      suite,
+      algorithm: this.toHashAlgorithm(cryptoMatch[1]),
       digits,
-      step,
-      algorithm,
+      counter: false,
     };
-    
-    // Validate the token
-    return totp.verify({ token, secret });
+
+    for (const part of dataInput.split('-')) {
+      const upperPart = part.toUpperCase();
+      if (upperPart === 'C') {
+        parsed.counter = true;
+      } else if (upperPart.startsWith('Q')) {
+        const match = /^Q([ANH])(\d{2})$/.exec(upperPart);
+        const length = match ? parseInt(match[2], 10) : NaN;
+        if (!match || length < 4 || length > 64) {
+          throw new Error(`Invalid OCRA challenge format "${part}".`);
+        }
+        parsed.challengeFormat = match[1] as OCRASuite['challengeFormat'];
+        parsed.challengeLength = length;
+      } else if (upperPart.startsWith('P')) {
+        const passwordHash = this.toHashAlgorithm(upperPart.substring(1));
+        if (!passwordHash) {
+          throw new Error(`Invalid OCRA password hash "${part}".`);
+        }
+        parsed.passwordHash = passwordHash;
+      } else if (upperPart.startsWith('S')) {
+        const match = /^S(\d{3})$/.exec(upperPart);
+        if (!match) {
+          throw new Error(`Invalid OCRA session information "${part}".`);
+        }
+        parsed.sessionLength = parseInt(match[1], 10);
+      } else if (upperPart.startsWith('T')) {
+        const match = /^T(\d{1,2})([SMH])$/.exec(upperPart);
+        if (!match) {
+          throw new Error(`Invalid OCRA timestamp "${part}".`);
+        }
+        const multiplier = { S: 1, M: 60, H: 3600 }[match[2] as 'S' | 'M' | 'H'];
+        parsed.timeStep = parseInt(match[1], 10) * multiplier;
+      } else {
+        throw new Error(`Unknown OCRA data input "${part}".`);
+      }
+    }
+
+    if (!parsed.challengeFormat) {
+      throw new Error(`OCRA suite "${suite}" has no challenge (Q) input.`);
+    }
+
+    return parsed as OCRASuite;
+  }
+
+  /**
+   * Computes an OCRA challenge-response code (RFC 6287).
+   * 
+   * @param params - The secret, suite, challenge and any other inputs the suite requires
+   * @returns A promise that resolves to the response code
+   * @throws Error if the suite is invalid or the challenge does not match its format
+   */
+  static async computeOCRA(params: OCRAParams): Promise<string> {
+    const { secret, challenge, counter = 0, password = '', sessionInfo = '', timestamp = Date.now() } = params;
+    const suite = this.parseOCRASuite(params.suite);
+    const parts: Uint8Array[] = [new TextEncoder().encode(suite.suite), new Uint8Array([0])];
+
+    if (suite.counter) {
+      parts.push(this.counterToBytes(counter));
+    }
+
+    parts.push(this.ocraChallengeToBytes(challenge, suite));
+
+    if (suite.passwordHash) {
+      const digest = await globalThis.crypto.subtle.digest(
+        WEB_CRYPTO_HASHES[suite.passwordHash],
+        new TextEncoder().encode(password)
+      );
+      parts.push(new Uint8Array(digest));
+    }
+
+    if (suite.sessionLength !== undefined) {
+      parts.push(this.hexToBytes(sessionInfo.padStart(suite.sessionLength * 2, '0').slice(-suite.sessionLength * 2)));
+    }
+
+    if (suite.timeStep !== undefined) {
+      parts.push(this.counterToBytes(Math.floor(timestamp / 1000 / suite.timeStep)));
+    }
+
+    const message = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+    parts.reduce((offset, part) => {
+      message.set(part, offset);
+      return offset + part.length;
+    }, 0);
+
+    const hmac = await this.hmac(suite.algorithm, decodeBase32(secret), message);
+    if (suite.digits === 0) {
+      return Array.from(hmac).map((byte) => byte.toString(16).padStart(2, '0')).join('');
+    }
+    return (this.truncate(hmac) % 10 ** suite.digits).toString().padStart(suite.digits, '0');
   }
-  
+
   /**
    * Calculates the remaining time in seconds before the current OTP expires.
    * 
    * @param step - Time step in seconds (default: 30)
+   * @param timestamp - The current time in milliseconds since the epoch (default: now)
    * @returns The number of seconds remaining before the current OTP expires
    */
-  static getRemainingTime(step: number = 30): number {
-    return step - (Math.floor(Date.now() / 1000) % step);
+  static getRemainingTime(step: number = 30, timestamp: number = Date.now()): number {
+    return step - (Math.floor(timestamp / 1000) % step);
+  }
+
+  /**
+   * Converts an algorithm name as found in otpauth:// URIs (e.g. 'SHA256') to a supported hash algorithm.
+   * 
+   * @param name - The algorithm name, in any case
+   * @returns The matching hash algorithm, or undefined if the name is missing or unsupported
+   */
+  static toHashAlgorithm(name?: string): HashAlgorithms | undefined {
+    const normalized = name?.toLowerCase();
+    if (normalized === 'sha1' || normalized === 'sha256' || normalized === 'sha512') {
+      return normalized;
+    }
+    return undefined;
   }
-  
+
   /**
    * Generates a random secret key for use with OTP.
    * 
@@ -92,6 +599,140 @@ export class OTPService {
    * @returns A base32-encoded secret key
    */
   static generateSecret(length: number = 20): string {
-    return authenticator.generateSecret(length);
+    return encodeBase32(globalThis.crypto.getRandomValues(new Uint8Array(length)));
+  }
+
+  /**
+   * Converts a time range into the first and last time step counters that overlap it.
+   * 
+   * @param from - Start of the range, in milliseconds since the epoch
+   * @param to - End of the range (inclusive), in milliseconds since the epoch
+   * @param period - Time step in seconds
+   * @param maxSteps - Maximum number of time steps the range may span
+   * @returns The first and last time step counters
+   * @throws Error if the range is invalid, reversed or too long
+   */
+  private static stepRange(from: number, to: number, period: number, maxSteps: number): [number, number] {
+    if (!Number.isFinite(from) || !Number.isFinite(to)) {
+      throw new Error('The time range is invalid.');
+    }
+    if (to < from) {
+      throw new Error('The end of the time range is before its start.');
+    }
+    const firstStep = Math.floor(from / (period * 1000));
+    const lastStep = Math.floor(to / (period * 1000));
+    if (lastStep - firstStep + 1 > maxSteps) {
+      throw new Error(`The time range spans more than ${maxSteps} time steps.`);
+    }
+    return [firstStep, lastStep];
+  }
+
+  /**
+   * Computes an HMAC over a message using the Web Crypto API.
+   * 
+   * @param algorithm - The hash algorithm to use
+   * @param key - The raw key bytes
+   * @param message - The message to authenticate
+   * @returns A promise that resolves to the HMAC bytes
+   */
+  private static async hmac(algorithm: HashAlgorithms, key: Uint8Array, message: Uint8Array): Promise<Uint8Array> {
+    const cryptoKey = await globalThis.crypto.subtle.importKey(
+      'raw',
+      key,
+      { name: 'HMAC', hash: WEB_CRYPTO_HASHES[algorithm] },
+      false,
+      ['sign']
+    );
+    return new Uint8Array(await globalThis.crypto.subtle.sign('HMAC', cryptoKey, message));
+  }
+
+  /**
+   * Computes the HMAC of a counter and applies HOTP dynamic truncation.
+   * 
+   * @param secret - The base32-encoded secret key
+   * @param counter - The moving factor
+   * @param algorithm - The hash algorithm to use
+   * @returns A promise that resolves to the truncated 31-bit value
+   */
+  private static async truncatedHmac(secret: string, counter: number, algorithm: HashAlgorithms): Promise<number> {
+    return this.truncate(await this.hmac(algorithm, decodeBase32(secret), this.counterToBytes(counter)));
+  }
+
+  /**
+   * Applies HOTP dynamic truncation to an HMAC value.
+   * 
+   * @param hmac - The HMAC bytes
+   * @returns The truncated 31-bit value
+   */
+  private static truncate(hmac: Uint8Array): number {
+    // Dynamic truncation: the low nibble of the last byte selects a 4-byte window
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    return (
+      ((hmac[offset] & 0x7f) << 24) |
+      (hmac[offset + 1] << 16) |
+      (hmac[offset + 2] << 8) |
+      hmac[offset + 3]
+    );
+  }
+
+  /**
+   * Encodes a counter as the 8-byte big-endian message used by HOTP.
+   * 
+   * @param counter - The counter value
+   * @returns The encoded counter
+   */
+  private static counterToBytes(counter: number): Uint8Array {
+    const bytes = new Uint8Array(8);
+    const view = new DataView(bytes.buffer);
+    view.setUint32(0, Math.floor(counter / 0x100000000));
+    view.setUint32(4, counter >>> 0);
+    return bytes;
   }
-}
\ No newline at end of file
+
+  /**
+   * Encodes an OCRA challenge as the fixed 128-byte question block.
+   * 
+   * @param challenge - The challenge entered by the user
+   * @param suite - The parsed suite that defines the challenge format
+   * @returns The challenge bytes, right-padded with zeros
+   * @throws Error if the challenge does not match the suite's format
+   */
+  private static ocraChallengeToBytes(challenge: string, suite: OCRASuite): Uint8Array {
+    if (challenge.length < 4 || challenge.length > suite.challengeLength) {
+      throw new Error(`Challenge must be between 4 and ${suite.challengeLength} characters long.`);
+    }
+
+    let hex: string;
+    if (suite.challengeFormat === 'N') {
+      if (!/^\d+$/.test(challenge)) {
+        throw new Error('Challenge must be numeric.');
+      }
+      hex = BigInt(challenge).toString(16);
+    } else if (suite.challengeFormat === 'H') {
+      if (!/^[0-9a-f]+$/i.test(challenge)) {
+        throw new Error('Challenge must be hexadecimal.');
+      }
+      hex = challenge;
+    } else {
+      hex = Array.from(new TextEncoder().encode(challenge))
+        .map((byte) => byte.toString(16).padStart(2, '0'))
+        .join('');
+    }
+
+    return this.hexToBytes(hex.padEnd(256, '0'));
+  }
+
+  /**
+   * Converts a hex string to bytes.
+   * 
+   * @param hex - The hex string (must have an even length)
+   * @returns The decoded bytes
+   */
+  private static hexToBytes(hex: string): Uint8Array {
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+    }
+    return bytes;
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Service for the corrected time source in the OTP Manager Pro application.
+ * Measures how far the device clock is from the app server's clock and
+ * applies that correction to every time-based code.
+ */
+
+/**
+ * Result of a clock offset measurement.
+ */
+export interface ClockOffsetMeasurement {
+  /** Milliseconds to add to the device clock to match the server clock */
+  offset: number;
+  /** Round-trip time of the sample the offset was taken from, in milliseconds */
+  roundTrip: number;
+  /** Device time at which the measurement was taken, in milliseconds since the epoch */
+  measuredAt: number;
+}
+
+/**
+ * Options for clock offset measurement.
+ */
+export interface TimeSyncOptions {
+  /** URL of the endpoint returning { serverTime } (default: '/api/time') */
+  endpoint?: string;
+  /** Number of samples to take; the one with the shortest round trip wins (default: 3) */
+  samples?: number;
+  /** Fetch implementation to use, e.g. a mocked server clock in tests (default: global fetch) */
+  fetcher?: typeof fetch;
+}
+
+/**
+ * Service class that provides a drift-corrected clock.
+ * The measured offset is kept in memory and applied by now().
+ */
+export class TimeService {
+  /** Default endpoint of the server time API route */
+  private static readonly DEFAULT_ENDPOINT = '/api/time';
+  /** Default number of samples per measurement */
+  private static readonly DEFAULT_SAMPLES = 3;
+  /** The current clock offset in milliseconds */
+  private static offset = 0;
+
+  /**
+   * Gets the current time corrected by the measured clock offset.
+   *
+   * @returns The corrected time in milliseconds since the epoch
+   */
+  static now(): number {
+    return Date.now() + this.offset;
+  }
+
+  /**
+   * Gets the clock offset currently applied by now().
+   *
+   * @returns The offset in milliseconds (positive when the device clock is behind)
+   */
+  static getOffset(): number {
+    return this.offset;
+  }
+
+  /**
+   * Sets the clock offset applied by now().
+   *
+   * @param offset - The offset in milliseconds
+   */
+  static setOffset(offset: number): void {
+    this.offset = offset;
+  }
+
+  /**
+   * Measures the offset between the device clock and the server clock and applies it.
+   * The server time is assumed to be taken halfway through each request's round trip.
+   *
+   * @param options - Optional measurement configuration
+   * @returns A promise that resolves to the measurement that was applied
+   * @throws Error if the server time cannot be retrieved
+   */
+  static async measureOffset(options: TimeSyncOptions = {}): Promise<ClockOffsetMeasurement> {
+    const {
+      endpoint = this.DEFAULT_ENDPOINT,
+      samples = this.DEFAULT_SAMPLES,
+      fetcher = globalThis.fetch.bind(globalThis),
+    } = options;
+
+    let best: ClockOffsetMeasurement | null = null;
+
+    for (let i = 0; i < samples; i++) {
+      const requestedAt = Date.now();
+      const response = await fetcher(endpoint, { cache: 'no-store' });
+      const receivedAt = Date.now();
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch server time: HTTP ${response.status}`);
+      }
+
+      const { serverTime } = await response.json();
+      if (typeof serverTime !== 'number') {
+        throw new Error('Invalid server time response.');
+      }
+
+      const roundTrip = receivedAt - requestedAt;
+      if (!best || roundTrip < best.roundTrip) {
+        best = {
+          offset: serverTime - (requestedAt + roundTrip / 2),
+          roundTrip,
+          measuredAt: receivedAt,
+        };
+      }
+    }
+
+    if (!best) {
+      throw new Error('At least one sample is required to measure the clock offset.');
+    }
+
+    this.offset = best.offset;
+    return best;
+  }
+}
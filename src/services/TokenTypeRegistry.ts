@@ -0,0 +1,250 @@
+/**
+ * Registry of the kinds of token (TOTP, HOTP, Steam Guard, ...) the OTP Manager Pro
+ * application supports. Each token type is described by a single definition that
+ * declares its settings, editor fields, code generation, countdown and otpauth://
+ * mapping; the context, cards and editor render generically from these definitions.
+ */
+import type { OTPConfig } from '@/lib/otp-config';
+import type { OtpAuthData } from '@/lib/utils';
+import type { TOTPParams } from '@/services/OTPService';
+import { BUILT_IN_TOKEN_TYPES } from '@/services/BuiltInTokenTypes';
+
+/**
+ * Value of a token type setting.
+ */
+export type TokenSettingValue = string | number;
+
+/**
+ * Settings of a configuration keyed by field key, as edited in the editor.
+ */
+export type TokenSettings = { [key: string]: TokenSettingValue };
+
+/**
+ * Setting keys that are stored as properties of OTPConfig itself.
+ * Any other field key is stored in OTPConfig.settings.
+ */
+const BUILT_IN_SETTING_KEYS = ['counter', 'algorithm', 'digits', 'period', 'timeOffset', 'pin', 'ocraSuite'] as const;
+
+/**
+ * A setting stored as a property of OTPConfig itself.
+ */
+type BuiltInSettingKey = (typeof BUILT_IN_SETTING_KEYS)[number];
+
+/**
+ * A setting of a token type, shown as an input in the editor.
+ */
+export interface TokenField {
+  /** Key of the setting: an OTPConfig property such as 'digits', or any other key for custom settings */
+  key: string;
+  /** Label shown next to the input */
+  label: string;
+  /** Kind of input: a number, text or masked text input, or a select from options */
+  kind: 'number' | 'text' | 'password' | 'select';
+  /** Value used when the setting has not been set */
+  defaultValue: TokenSettingValue;
+  /** Choices for select inputs */
+  options?: { value: TokenSettingValue; label: string }[];
+  /** Smallest accepted value for number inputs */
+  min?: number;
+  /** Placeholder text for text inputs */
+  placeholder?: string;
+}
+
+/**
+ * The moment a code is generated for.
+ */
+export interface CodeTiming {
+  /** Drift-corrected time including the configuration's own offset, in milliseconds since the epoch */
+  timestamp: number;
+  /** Number of time steps ahead to generate the code for, e.g. 1 for the next code */
+  stepOffset: number;
+}
+
+/**
+ * Response computed for a challenge.
+ */
+export interface ChallengeResponse {
+  /** The response code, before it is formatted with the configuration's template */
+  code: string;
+  /** Whether the configuration's counter was part of the input and must be advanced */
+  usedCounter: boolean;
+}
+
+/**
+ * Everything the application needs to know about one kind of token.
+ * Only id, label, secretFormat and fields are required; the optional members
+ * switch on the matching behaviour (a countdown, a next-code button, a challenge
+ * input, verification and history, QR import and export).
+ */
+export interface TokenTypeDefinition {
+  /** Unique ID stored in OTPConfig.type, e.g. 'totp' */
+  id: string;
+  /** Name shown in the type selector */
+  label: string;
+  /** Short name shown under the code on cards, if the type should be pointed out */
+  badge?: string;
+  /** Extra classes for the code on cards, e.g. for alphanumeric codes */
+  codeClassName?: string;
+  /** 'key' secrets are binary keys normalized to base32; 'text' secrets are used exactly as entered */
+  secretFormat: 'key' | 'text';
+  /** Settings of the type, in the order they are shown in the editor */
+  fields: TokenField[];
+  /**
+   * Checks that a configuration can be used.
+   * @throws Error with a message for the user if it cannot
+   */
+  validate?: (config: Omit<OTPConfig, 'id'>) => void;
+  /** Returns how long each code is valid in seconds; types without it never expire and show no countdown */
+  getPeriod?: (config: OTPConfig) => number;
+  /** Generates the code (before it is formatted with the configuration's template); types without it show no code until challenged */
+  generate?: (config: OTPConfig, timing: CodeTiming) => Promise<string> | string;
+  /** Whether the code advances with a counter the user moves on with a next-code button */
+  manualCounter?: boolean;
+  /** Computes the response to a challenge; types with it show a challenge input */
+  respond?: (config: OTPConfig, challenge: string, timestamp: number) => Promise<ChallengeResponse>;
+  /** Returns a short description shown under the code, e.g. the counter value */
+  describe?: (config: OTPConfig) => string | undefined;
+  /** Returns the RFC 6238 parameters of the type; types with it support verification and code history */
+  toTOTPParams?: (config: OTPConfig) => Omit<TOTPParams, 'timestamp' | 'stepOffset'>;
+  /** Converts a parsed otpauth:// URI into settings; types with it can be scanned from QR codes */
+  fromUri?: (data: OtpAuthData) => TokenSettings;
+  /** Converts a configuration into otpauth:// URI data; types with it can be exported as URIs */
+  toUri?: (config: OTPConfig) => OtpAuthData;
+}
+
+/**
+ * Service class that keeps the registered token types.
+ * The built-in types are always registered; in-house types are added with register().
+ */
+export class TokenTypeRegistry {
+  /** ID of the token type used by configurations without a type */
+  static readonly DEFAULT_TYPE = 'totp';
+  /** Registered token types keyed by ID, in registration order */
+  private static types = new Map<string, TokenTypeDefinition>(
+    BUILT_IN_TOKEN_TYPES.map((definition) => [definition.id, definition])
+  );
+
+  /**
+   * Registers a token type.
+   * 
+   * @param definition - The token type definition
+   * @throws Error if a token type with the same ID is already registered
+   */
+  static register(definition: TokenTypeDefinition): void {
+    if (this.types.has(definition.id)) {
+      throw new Error(`Token type "${definition.id}" is already registered.`);
+    }
+    this.types.set(definition.id, definition);
+  }
+
+  /**
+   * Gets a registered token type.
+   * 
+   * @param id - The token type ID (default: 'totp')
+   * @returns The token type definition, or undefined if no such type is registered
+   */
+  static find(id: string = this.DEFAULT_TYPE): TokenTypeDefinition | undefined {
+    return this.types.get(id);
+  }
+
+  /**
+   * Gets a registered token type.
+   * 
+   * @param id - The token type ID (default: 'totp')
+   * @returns The token type definition
+   * @throws Error if no such type is registered
+   */
+  static get(id: string = this.DEFAULT_TYPE): TokenTypeDefinition {
+    const definition = this.types.get(id);
+    if (!definition) {
+      throw new Error(`Unknown token type "${id}".`);
+    }
+    return definition;
+  }
+
+  /**
+   * Lists all registered token types.
+   * 
+   * @returns The token type definitions in registration order
+   */
+  static list(): TokenTypeDefinition[] {
+    return Array.from(this.types.values());
+  }
+
+  /**
+   * Reads the settings of a configuration for its token type's fields.
+   * 
+   * @param config - The configuration to read
+   * @returns The settings keyed by field key, with defaults for unset settings
+   */
+  static readSettings(config: OTPConfig): TokenSettings {
+    const settings: TokenSettings = {};
+    for (const field of this.find(config.type)?.fields ?? []) {
+      const value = this.isBuiltInKey(field.key) ? config[field.key] : config.settings?.[field.key];
+      settings[field.key] = value ?? field.defaultValue;
+    }
+    return settings;
+  }
+
+  /**
+   * Converts edited settings into the setting properties of a configuration.
+   * Only the token type's own fields are kept; unset fields get their defaults.
+   * Number fields are edited as text, so they are parsed and checked here.
+   * 
+   * @param type - The token type ID
+   * @param values - The edited settings keyed by field key
+   * @returns The built-in setting properties and, for custom fields, the settings property
+   * @throws Error if a number field is not a whole number or below its minimum
+   */
+  static buildSettings(type: string, values: TokenSettings): Partial<Pick<OTPConfig, BuiltInSettingKey | 'settings'>> {
+    const builtIn: { [key: string]: TokenSettingValue } = {};
+    const custom: TokenSettings = {};
+    for (const field of this.get(type).fields) {
+      const value = field.kind === 'number'
+        ? this.parseNumber(field, values[field.key])
+        : values[field.key] ?? field.defaultValue;
+      if (this.isBuiltInKey(field.key)) {
+        builtIn[field.key] = value;
+      } else {
+        custom[field.key] = value;
+      }
+    }
+    return {
+      ...(builtIn as Partial<Pick<OTPConfig, BuiltInSettingKey>>),
+      settings: Object.keys(custom).length > 0 ? custom : undefined,
+    };
+  }
+
+  /**
+   * Parses the value of a number field, as typed in the editor.
+   * 
+   * @param field - The number field
+   * @param value - The typed value, or a number for settings that were not edited
+   * @returns The number, or the field's default if nothing was entered
+   * @throws Error if the value is not a whole number or below the field's minimum
+   */
+  private static parseNumber(field: TokenField, value: TokenSettingValue | undefined): TokenSettingValue {
+    const text = String(value ?? '').trim();
+    if (!text) {
+      return field.defaultValue;
+    }
+    const number = Number(text);
+    if (!Number.isInteger(number)) {
+      throw new Error(`${field.label} must be a whole number.`);
+    }
+    if (field.min !== undefined && number < field.min) {
+      throw new Error(`${field.label} must be at least ${field.min}.`);
+    }
+    return number;
+  }
+
+  /**
+   * Checks whether a setting key is stored as a property of OTPConfig itself.
+   * 
+   * @param key - The setting key
+   * @returns True for built-in setting keys
+   */
+  private static isBuiltInKey(key: string): key is BuiltInSettingKey {
+    return (BUILT_IN_SETTING_KEYS as readonly string[]).includes(key);
+  }
+}